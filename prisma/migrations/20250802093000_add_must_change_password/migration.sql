@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Employee` ADD COLUMN `mustChangePassword` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Employee` MODIFY `role` ENUM('ADMIN', 'MANAGER', 'EMPLOYEE') NOT NULL DEFAULT 'EMPLOYEE';
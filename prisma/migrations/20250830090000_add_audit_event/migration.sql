@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE `AuditEvent` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `actorId` INTEGER NULL,
+    `action` VARCHAR(191) NOT NULL,
+    `targetEmployeeId` INTEGER NULL,
+    `changes` JSON NOT NULL,
+    `requestId` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `AuditEvent_targetEmployeeId_createdAt_idx`(`targetEmployeeId`, `createdAt`),
+    INDEX `AuditEvent_actorId_createdAt_idx`(`actorId`, `createdAt`),
+    INDEX `AuditEvent_action_createdAt_idx`(`action`, `createdAt`),
+    INDEX `AuditEvent_createdAt_idx`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
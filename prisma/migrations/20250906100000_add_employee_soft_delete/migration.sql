@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `Employee` ADD COLUMN `deletedAt` DATETIME(3) NULL,
+    ADD COLUMN `deletedBy` INTEGER NULL;
+
+-- CreateIndex
+CREATE INDEX `Employee_deletedAt_idx` ON `Employee`(`deletedAt`);
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE `Subject` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `Subject_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `_EmployeeToSubject` (
+    `A` INTEGER NOT NULL,
+    `B` INTEGER NOT NULL,
+
+    UNIQUE INDEX `_EmployeeToSubject_AB_unique`(`A`, `B`),
+    INDEX `_EmployeeToSubject_B_index`(`B`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `_EmployeeToSubject` ADD CONSTRAINT `_EmployeeToSubject_A_fkey` FOREIGN KEY (`A`) REFERENCES `Employee`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `_EmployeeToSubject` ADD CONSTRAINT `_EmployeeToSubject_B_fkey` FOREIGN KEY (`B`) REFERENCES `Subject`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate data: one Subject per distinct name in the old JSON arrays. Names are trimmed and,
+-- because of the case-insensitive collation, "Math" and "math" collapse into one subject.
+INSERT IGNORE INTO `Subject` (`name`)
+SELECT DISTINCT TRIM(jt.`name`)
+FROM `Employee` e,
+    JSON_TABLE(
+        IF(JSON_VALID(e.`subjects`), e.`subjects`, '[]'),
+        '$[*]' COLUMNS (`name` VARCHAR(191) PATH '$')
+    ) jt
+WHERE jt.`name` IS NOT NULL AND TRIM(jt.`name`) <> '';
+
+INSERT IGNORE INTO `_EmployeeToSubject` (`A`, `B`)
+SELECT e.`id`, s.`id`
+FROM `Employee` e,
+    JSON_TABLE(
+        IF(JSON_VALID(e.`subjects`), e.`subjects`, '[]'),
+        '$[*]' COLUMNS (`name` VARCHAR(191) PATH '$')
+    ) jt
+    INNER JOIN `Subject` s ON s.`name` = TRIM(jt.`name`);
+
+-- AlterTable
+ALTER TABLE `Employee` DROP COLUMN `subjects`;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE `Department` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `headId` INTEGER NULL,
+    `parentId` INTEGER NULL,
+    `budget` DOUBLE NULL,
+
+    UNIQUE INDEX `Department_name_key`(`name`),
+    INDEX `Department_headId_idx`(`headId`),
+    INDEX `Department_parentId_idx`(`parentId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `Employee` ADD COLUMN `departmentId` INTEGER NULL;
+
+-- Migrate data: one Department per distinct free-text value. Values are trimmed and, because of
+-- the case-insensitive collation, "Engineering" and "engineering " collapse into one department.
+INSERT IGNORE INTO `Department` (`name`)
+SELECT DISTINCT TRIM(`department`)
+FROM `Employee`
+WHERE `department` IS NOT NULL AND TRIM(`department`) <> '';
+
+UPDATE `Employee` e
+    INNER JOIN `Department` d ON d.`name` = TRIM(e.`department`)
+SET e.`departmentId` = d.`id`;
+
+-- AlterTable
+ALTER TABLE `Employee` DROP COLUMN `department`;
+
+-- CreateIndex
+CREATE INDEX `Employee_departmentId_idx` ON `Employee`(`departmentId`);
+
+-- AddForeignKey
+ALTER TABLE `Employee` ADD CONSTRAINT `Employee_departmentId_fkey` FOREIGN KEY (`departmentId`) REFERENCES `Department`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Department` ADD CONSTRAINT `Department_headId_fkey` FOREIGN KEY (`headId`) REFERENCES `Employee`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `Department` ADD CONSTRAINT `Department_parentId_fkey` FOREIGN KEY (`parentId`) REFERENCES `Department`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE `AttendanceRecord` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `employeeId` INTEGER NOT NULL,
+    `date` DATE NOT NULL,
+    `status` ENUM('PRESENT', 'ABSENT', 'LATE', 'REMOTE') NOT NULL,
+    `checkInAt` DATETIME(3) NULL,
+    `checkOutAt` DATETIME(3) NULL,
+    `note` VARCHAR(500) NULL,
+    `markedBy` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `AttendanceRecord_date_idx`(`date`),
+    UNIQUE INDEX `AttendanceRecord_employeeId_date_key`(`employeeId`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `AttendanceRecord` ADD CONSTRAINT `AttendanceRecord_employeeId_fkey` FOREIGN KEY (`employeeId`) REFERENCES `Employee`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE `AttendanceRecord` MODIFY `status` ENUM('PRESENT', 'ABSENT', 'LATE', 'REMOTE', 'ON_LEAVE') NOT NULL;
+
+-- CreateTable
+CREATE TABLE `LeaveRequest` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `employeeId` INTEGER NOT NULL,
+    `type` ENUM('ANNUAL', 'SICK', 'UNPAID', 'OTHER') NOT NULL,
+    `startDate` DATE NOT NULL,
+    `endDate` DATE NOT NULL,
+    `days` INTEGER NOT NULL,
+    `reason` VARCHAR(1000) NULL,
+    `status` ENUM('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED') NOT NULL DEFAULT 'PENDING',
+    `approverId` INTEGER NULL,
+    `decisionNote` VARCHAR(1000) NULL,
+    `decidedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `LeaveRequest_employeeId_startDate_idx`(`employeeId`, `startDate`),
+    INDEX `LeaveRequest_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `LeaveAllowance` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `employeeId` INTEGER NOT NULL,
+    `year` INTEGER NOT NULL,
+    `type` ENUM('ANNUAL', 'SICK', 'UNPAID', 'OTHER') NOT NULL,
+    `days` INTEGER NOT NULL,
+
+    UNIQUE INDEX `LeaveAllowance_employeeId_year_type_key`(`employeeId`, `year`, `type`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `LeaveRequest` ADD CONSTRAINT `LeaveRequest_employeeId_fkey` FOREIGN KEY (`employeeId`) REFERENCES `Employee`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `LeaveAllowance` ADD CONSTRAINT `LeaveAllowance_employeeId_fkey` FOREIGN KEY (`employeeId`) REFERENCES `Employee`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE `CompensationChange` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `employeeId` INTEGER NOT NULL,
+    `effectiveDate` DATE NOT NULL,
+    `oldSalary` DOUBLE NULL,
+    `newSalary` DOUBLE NULL,
+    `oldPosition` VARCHAR(191) NULL,
+    `newPosition` VARCHAR(191) NULL,
+    `reason` VARCHAR(1000) NULL,
+    `recordedBy` INTEGER NULL,
+    `appliedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `CompensationChange_employeeId_effectiveDate_idx`(`employeeId`, `effectiveDate`),
+    INDEX `CompensationChange_appliedAt_effectiveDate_idx`(`appliedAt`, `effectiveDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `CompensationChange` ADD CONSTRAINT `CompensationChange_employeeId_fkey` FOREIGN KEY (`employeeId`) REFERENCES `Employee`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `Employee` ADD COLUMN `locale` VARCHAR(191) NULL;
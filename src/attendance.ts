@@ -0,0 +1,205 @@
+import { AttendanceStatus, PrismaClient } from '@prisma/client';
+import { UserInputError } from 'apollo-server-express';
+import { OptimizedQueryBuilder } from './performance/databaseOptimizer';
+import { employeeInclude, formatEmployee } from './employeeFormat';
+import { EMPLOYEE_UPDATED, publishEmployeeEvent } from './pubsub';
+
+// Employee.attendance is the share of recorded days attended over this many days
+const ATTENDANCE_WINDOW_DAYS = parseInt(process.env.ATTENDANCE_WINDOW_DAYS || '30');
+// Check-ins after this time (server local time, HH:MM) are recorded as LATE
+const ATTENDANCE_LATE_AFTER = process.env.ATTENDANCE_LATE_AFTER || '09:30';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that count as attended when computing rates
+const ATTENDED_STATUSES: AttendanceStatus[] = [AttendanceStatus.PRESENT, AttendanceStatus.LATE, AttendanceStatus.REMOTE];
+
+interface AttendanceMark {
+  employeeId: number;
+  status: AttendanceStatus;
+  note?: string | null;
+}
+
+interface AttendanceSummary {
+  present: number;
+  absent: number;
+  late: number;
+  remote: number;
+  onLeave: number;
+  // Days that count towards the rate; leave is excluded
+  recordedDays: number;
+  // Percentage of recorded days attended, or null when nothing was recorded
+  rate: number | null;
+}
+
+// Attendance dates are calendar days, stored as UTC midnight of the server-local date
+function toDay(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+// Parses a YYYY-MM-DD argument into a stored day
+function parseDay(value: string, name: string = 'date'): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const day = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+  if (!day || isNaN(day.getTime()) || day.toISOString().slice(0, 10) !== value) {
+    throw new UserInputError(`${name} must be a date in YYYY-MM-DD format`);
+  }
+  return day;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isLate(now: Date): boolean {
+  const [hours, minutes] = ATTENDANCE_LATE_AFTER.split(':').map(Number);
+  return now.getHours() * 60 + now.getMinutes() > hours * 60 + (minutes || 0);
+}
+
+function summarize(counts: Partial<Record<AttendanceStatus, number>>): AttendanceSummary {
+  const present = counts.PRESENT ?? 0;
+  const absent = counts.ABSENT ?? 0;
+  const late = counts.LATE ?? 0;
+  const remote = counts.REMOTE ?? 0;
+  const onLeave = counts.ON_LEAVE ?? 0;
+  const recordedDays = present + absent + late + remote;
+  const attended = ATTENDED_STATUSES.reduce((sum, status) => sum + (counts[status] ?? 0), 0);
+  return {
+    present,
+    absent,
+    late,
+    remote,
+    onLeave,
+    recordedDays,
+    rate: recordedDays > 0 ? Math.round((attended / recordedDays) * 10000) / 100 : null,
+  };
+}
+
+class AttendanceService {
+  async checkIn(prisma: PrismaClient, employeeId: number, options: { remote?: boolean; note?: string | null } = {}) {
+    const now = new Date();
+    const date = toDay(now);
+    const existing = await prisma.attendanceRecord.findUnique({ where: { employeeId_date: { employeeId, date } } });
+    if (existing?.checkInAt) throw new UserInputError('Already checked in today');
+
+    const status = options.remote ? AttendanceStatus.REMOTE : isLate(now) ? AttendanceStatus.LATE : AttendanceStatus.PRESENT;
+    // A day already marked (e.g. absent by a manager) is overwritten by the employee actually turning up
+    const record = await prisma.attendanceRecord.upsert({
+      where: { employeeId_date: { employeeId, date } },
+      create: { employeeId, date, status, checkInAt: now, note: options.note ?? null },
+      update: { status, checkInAt: now, note: options.note ?? existing?.note ?? null },
+    });
+    await this.refreshStoredRates(prisma, [employeeId]);
+    return record;
+  }
+
+  async checkOut(prisma: PrismaClient, employeeId: number) {
+    const date = toDay(new Date());
+    const existing = await prisma.attendanceRecord.findUnique({ where: { employeeId_date: { employeeId, date } } });
+    if (!existing?.checkInAt) throw new UserInputError('Not checked in today');
+    if (existing.checkOutAt) throw new UserInputError('Already checked out today');
+    return prisma.attendanceRecord.update({ where: { id: existing.id }, data: { checkOutAt: new Date() } });
+  }
+
+  // Sets the status of one day for many employees at once, replacing whatever was recorded
+  async mark(prisma: PrismaClient, date: Date, marks: AttendanceMark[], markedBy: number) {
+    const records = await prisma.$transaction(
+      marks.map(({ employeeId, status, note }) =>
+        prisma.attendanceRecord.upsert({
+          where: { employeeId_date: { employeeId, date } },
+          create: { employeeId, date, status, note: note ?? null, markedBy },
+          update: { status, note: note ?? null, markedBy },
+        })
+      )
+    );
+    await this.refreshStoredRates(prisma, marks.map((mark) => mark.employeeId));
+    return records;
+  }
+
+  async report(prisma: PrismaClient, employeeId: number, from: Date, to: Date) {
+    const records = await prisma.attendanceRecord.findMany({
+      where: { employeeId, date: { gte: from, lte: to } },
+      orderBy: { date: 'asc' },
+    });
+    const counts: Partial<Record<AttendanceStatus, number>> = {};
+    for (const record of records) counts[record.status] = (counts[record.status] ?? 0) + 1;
+    return { records, summary: summarize(counts) };
+  }
+
+  // Attendance percentage over the rolling window for each employee; employees with
+  // no records in the window are left out of the map
+  async rates(prisma: PrismaClient, employeeIds: number[]): Promise<Map<number, number>> {
+    const since = new Date(toDay(new Date()).getTime() - (ATTENDANCE_WINDOW_DAYS - 1) * DAY_MS);
+    const groups = await prisma.attendanceRecord.groupBy({
+      by: ['employeeId', 'status'],
+      where: { employeeId: { in: employeeIds }, date: { gte: since } },
+      _count: { _all: true },
+    });
+
+    const countsByEmployee = new Map<number, Partial<Record<AttendanceStatus, number>>>();
+    for (const group of groups) {
+      const counts = countsByEmployee.get(group.employeeId) ?? {};
+      counts[group.status] = group._count._all;
+      countsByEmployee.set(group.employeeId, counts);
+    }
+
+    const rates = new Map<number, number>();
+    for (const [employeeId, counts] of countsByEmployee) {
+      const { rate } = summarize(counts);
+      if (rate !== null) rates.set(employeeId, rate);
+    }
+    return rates;
+  }
+
+  // Marks approved leave days, keeping any day the employee already checked in or was marked for
+  async recordLeave(prisma: PrismaClient, employeeId: number, days: Date[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.attendanceRecord.createMany({
+        data: days.map((date) => ({ employeeId, date, status: AttendanceStatus.ON_LEAVE })),
+        skipDuplicates: true,
+      }),
+      // Absences recorded before the leave was approved become leave
+      prisma.attendanceRecord.updateMany({
+        where: { employeeId, date: { in: days }, status: AttendanceStatus.ABSENT },
+        data: { status: AttendanceStatus.ON_LEAVE },
+      }),
+    ]);
+    await this.refreshStoredRates(prisma, [employeeId]);
+  }
+
+  async clearLeave(prisma: PrismaClient, employeeId: number, from: Date, to: Date): Promise<void> {
+    await prisma.attendanceRecord.deleteMany({
+      where: { employeeId, date: { gte: from, lte: to }, status: AttendanceStatus.ON_LEAVE },
+    });
+    await this.refreshStoredRates(prisma, [employeeId]);
+  }
+
+  // Copies the current rates onto Employee.attendance so filters and sorting can use them, and
+  // tells subscribers about every employee whose rate changed
+  async refreshStoredRates(prisma: PrismaClient, employeeIds: number[]): Promise<void> {
+    const [rates, before] = await Promise.all([
+      this.rates(prisma, employeeIds),
+      prisma.employee.findMany({ where: { id: { in: employeeIds } }, include: { department: true } }),
+    ]);
+    const changed = before.filter((employee) => rates.has(employee.id) && rates.get(employee.id) !== employee.attendance);
+    const updated = await prisma.$transaction(
+      changed.map(({ id }) =>
+        prisma.employee.update({ where: { id }, data: { attendance: rates.get(id)! }, include: employeeInclude })
+      )
+    );
+    OptimizedQueryBuilder.invalidateEmployee(
+      ...changed.flatMap((employee) => [employee, { ...employee, attendance: rates.get(employee.id)! }])
+    );
+    for (const employee of updated) await publishEmployeeEvent(EMPLOYEE_UPDATED, formatEmployee(employee));
+  }
+}
+
+export const attendanceService = new AttendanceService();
+
+export {
+  AttendanceMark,
+  AttendanceSummary,
+  toDay,
+  parseDay,
+  formatDay,
+};
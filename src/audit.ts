@@ -0,0 +1,103 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type AuditAction =
+  | 'EMPLOYEE_CREATED'
+  | 'EMPLOYEE_UPDATED'
+  | 'EMPLOYEE_ARCHIVED'
+  | 'EMPLOYEE_RESTORED'
+  | 'EMPLOYEE_DELETED'
+  | 'PASSWORD_EMAIL_SENT'
+  | 'PASSWORD_CHANGED'
+  | 'ACCOUNT_UNLOCKED';
+
+type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Never written to the audit log, not even as "changed"
+const REDACTED_FIELDS = new Set(['password']);
+
+interface AuditEntry {
+  actorId?: number | null;
+  action: AuditAction;
+  targetEmployeeId?: number | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  requestId?: string | null;
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+// Field-by-field diff of two employee rows; a missing side is treated as all-null
+function diffRecords(before?: Record<string, any> | null, after?: Record<string, any> | null): FieldChanges {
+  const changes: FieldChanges = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (REDACTED_FIELDS.has(field)) continue;
+    const from = normalizeValue(before?.[field]);
+    const to = normalizeValue(after?.[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+class AuditService {
+  // Accepts a transaction client so the event commits or rolls back with the change it describes
+  async record(prisma: PrismaClient | Prisma.TransactionClient, entry: AuditEntry): Promise<void> {
+    await prisma.auditEvent.create({
+      data: {
+        actorId: entry.actorId ?? null,
+        action: entry.action,
+        targetEmployeeId: entry.targetEmployeeId ?? null,
+        changes: diffRecords(entry.before, entry.after) as Prisma.InputJsonValue,
+        requestId: entry.requestId ?? null,
+      },
+    });
+  }
+
+  async query(
+    prisma: PrismaClient,
+    options: {
+      employeeId?: number;
+      actorId?: number;
+      action?: AuditAction;
+      from?: Date;
+      to?: Date;
+      page?: number;
+      pageSize?: number;
+    }
+  ) {
+    const { employeeId, actorId, action, from, to, page = 1, pageSize = 20 } = options;
+    const where: Prisma.AuditEventWhereInput = {
+      ...(employeeId !== undefined ? { targetEmployeeId: employeeId } : {}),
+      ...(actorId !== undefined ? { actorId } : {}),
+      ...(action ? { action } : {}),
+      ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+    };
+
+    const [events, totalCount] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return { events, totalCount };
+  }
+}
+
+export const auditService = new AuditService();
+
+export {
+  AuditAction,
+  FieldChanges,
+  diffRecords,
+};
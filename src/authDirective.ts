@@ -0,0 +1,50 @@
+import { defaultFieldResolver, GraphQLSchema } from 'graphql';
+import { getDirective, MapperKind, mapSchema } from '@graphql-tools/utils';
+import { hasPermission, isDepartmentInScope, isInScope, Permission } from './permissions';
+
+// How to decide whether a parent object falls inside the viewer's scope, per GraphQL type.
+// Types not listed here only need the permission itself.
+const scopeCheckers: Record<string, (user: any, source: any) => boolean> = {
+  Employee: isInScope,
+  Department: isDepartmentInScope,
+};
+
+// Payloads that authenticate the caller (login, refreshToken) tag the returned employee with the
+// new viewer, since the request context still belongs to the anonymous caller
+const PAYLOAD_VIEWER = Symbol('payloadViewer');
+
+function withPayloadViewer<T extends object>(source: T, viewer: { id: number; role: string; departmentId: number | null }): T {
+  return { ...source, [PAYLOAD_VIEWER]: viewer };
+}
+
+function canViewField(user: any, requires: Permission, typeName: string, source: any): boolean {
+  if (!user || !hasPermission(user, requires)) return false;
+  const inScope = scopeCheckers[typeName];
+  return !inScope || !source || source.id === undefined || inScope(user, source);
+}
+
+// Implements `@auth(requires: "<permission>")` on field definitions. Restricted fields resolve
+// to null unless the viewer holds the permission for the parent object, wherever it appears.
+function authDirectiveTransformer(schema: GraphQLSchema, directiveName: string = 'auth'): GraphQLSchema {
+  return mapSchema(schema, {
+    [MapperKind.OBJECT_FIELD]: (fieldConfig, _fieldName, typeName) => {
+      const authDirective = getDirective(schema, fieldConfig, directiveName)?.[0];
+      if (!authDirective) return fieldConfig;
+
+      const { requires } = authDirective;
+      const { resolve = defaultFieldResolver } = fieldConfig;
+      fieldConfig.resolve = (source, args, context, info) => {
+        const viewer = source?.[PAYLOAD_VIEWER] ?? context.user;
+        if (!canViewField(viewer, requires, typeName, source)) return null;
+        return resolve(source, args, context, info);
+      };
+      return fieldConfig;
+    },
+  });
+}
+
+export {
+  authDirectiveTransformer,
+  canViewField,
+  withPayloadViewer,
+};
@@ -0,0 +1,153 @@
+import { CompensationChange, Prisma, PrismaClient } from '@prisma/client';
+import { UserInputError } from 'apollo-server-express';
+import { auditService } from './audit';
+import { toDay } from './attendance';
+import { OptimizedQueryBuilder } from './performance/databaseOptimizer';
+import { employeeInclude, formatEmployee } from './employeeFormat';
+import { EMPLOYEE_UPDATED, publishEmployeeEvent } from './pubsub';
+
+// How often pending future-dated changes are checked for
+const COMPENSATION_APPLY_INTERVAL_MINUTES = parseInt(process.env.COMPENSATION_APPLY_INTERVAL_MINUTES || '60');
+
+interface CompensationInput {
+  employeeId: number;
+  effectiveDate: Date;
+  salary?: number | null;
+  position?: string | null;
+  reason?: string | null;
+  recordedBy: number;
+  requestId?: string | null;
+}
+
+class CompensationService {
+  private timer?: NodeJS.Timeout;
+
+  // Records a change, applying it straight away unless it is dated in the future
+  async record(prisma: PrismaClient, input: CompensationInput): Promise<CompensationChange> {
+    const { employeeId, effectiveDate, salary, position } = input;
+    if (salary == null && position == null) throw new UserInputError('A compensation change needs a salary or a position');
+    if (salary != null && salary < 0) throw new UserInputError('Salary cannot be negative');
+
+    const change = await prisma.compensationChange.create({
+      data: {
+        employeeId,
+        effectiveDate,
+        newSalary: salary ?? null,
+        newPosition: position ?? null,
+        reason: input.reason ?? null,
+        recordedBy: input.recordedBy,
+      },
+    });
+    if (effectiveDate > toDay(new Date())) return change;
+    return (await this.apply(prisma, change, input.requestId)) ?? change;
+  }
+
+  // Called from updateEmployee, inside its transaction, when salary or position is edited directly
+  async recordApplied(
+    tx: Prisma.TransactionClient,
+    before: { id: number; salary: number | null; position: string | null },
+    after: { salary: number | null; position: string | null },
+    recordedBy: number
+  ): Promise<void> {
+    if (before.salary === after.salary && before.position === after.position) return;
+    await tx.compensationChange.create({
+      data: {
+        employeeId: before.id,
+        effectiveDate: toDay(new Date()),
+        oldSalary: before.salary,
+        newSalary: after.salary,
+        oldPosition: before.position,
+        newPosition: after.position,
+        recordedBy,
+        appliedAt: new Date(),
+      },
+    });
+  }
+
+  // Writes a pending change onto the employee. Old values are taken at this point so the
+  // history reflects what the change actually replaced. Returns null if it was already applied.
+  // Used both for immediate changes and by the scheduler, so subscribers hear about either.
+  async apply(prisma: PrismaClient, change: CompensationChange, requestId?: string | null): Promise<CompensationChange | null> {
+    const snapshots: any[] = [];
+    let updated: any = null;
+    const applied = await prisma.$transaction(async (tx) => {
+      const employee = await tx.employee.findUnique({ where: { id: change.employeeId }, include: { department: true } });
+      if (!employee) return null;
+      const newSalary = change.newSalary ?? employee.salary;
+      const newPosition = change.newPosition ?? employee.position;
+
+      // Conditional update so a change is never applied twice
+      const { count } = await tx.compensationChange.updateMany({
+        where: { id: change.id, appliedAt: null },
+        data: {
+          appliedAt: new Date(),
+          oldSalary: employee.salary,
+          newSalary,
+          oldPosition: employee.position,
+          newPosition,
+        },
+      });
+      if (count !== 1) return null;
+
+      updated = await tx.employee.update({
+        where: { id: employee.id },
+        data: { salary: newSalary, position: newPosition },
+        include: employeeInclude,
+      });
+      await auditService.record(tx, {
+        actorId: change.recordedBy,
+        action: 'EMPLOYEE_UPDATED',
+        targetEmployeeId: employee.id,
+        before: { salary: employee.salary, position: employee.position },
+        after: { salary: newSalary, position: newPosition },
+        requestId,
+      });
+      snapshots.push(employee, { ...employee, salary: newSalary, position: newPosition });
+      return tx.compensationChange.findUniqueOrThrow({ where: { id: change.id } });
+    });
+    OptimizedQueryBuilder.invalidateEmployee(...snapshots);
+    if (updated) await publishEmployeeEvent(EMPLOYEE_UPDATED, formatEmployee(updated));
+    return applied;
+  }
+
+  // Applies every pending change whose effective date has arrived, oldest first
+  async applyDue(prisma: PrismaClient): Promise<number> {
+    const due = await prisma.compensationChange.findMany({
+      where: { appliedAt: null, effectiveDate: { lte: toDay(new Date()) } },
+      orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }],
+    });
+    let applied = 0;
+    for (const change of due) {
+      if (await this.apply(prisma, change)) applied++;
+    }
+    return applied;
+  }
+
+  // Only pending changes can be withdrawn; applied ones are history
+  async cancel(prisma: PrismaClient, id: number): Promise<boolean> {
+    const { count } = await prisma.compensationChange.deleteMany({ where: { id, appliedAt: null } });
+    return count > 0;
+  }
+
+  history(prisma: PrismaClient, employeeId: number): Promise<CompensationChange[]> {
+    return prisma.compensationChange.findMany({
+      where: { employeeId },
+      orderBy: [{ effectiveDate: 'desc' }, { id: 'desc' }],
+    });
+  }
+
+  startScheduler(prisma: PrismaClient): void {
+    if (this.timer) return;
+    const run = () =>
+      this.applyDue(prisma)
+        .then((applied) => {
+          if (applied > 0) console.log(`Applied ${applied} scheduled compensation change(s)`);
+        })
+        .catch((error) => console.error('Error applying scheduled compensation changes:', error));
+    run();
+    this.timer = setInterval(run, COMPENSATION_APPLY_INTERVAL_MINUTES * 60 * 1000);
+    this.timer.unref();
+  }
+}
+
+export const compensationService = new CompensationService();
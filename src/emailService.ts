@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import { emailTemplateService, EmailTemplateName, TemplateVars } from './emailTemplates';
 
 interface EmailConfig {
   host: string;
@@ -14,6 +15,14 @@ interface EmailData {
   to: string;
   subject: string;
   html: string;
+  text?: string;
+}
+
+// locale picks the template translation; without one the default locale is used
+interface EmailRecipient {
+  name: string;
+  email: string;
+  locale?: string | null;
 }
 
 class EmailService {
@@ -40,6 +49,7 @@ class EmailService {
         to: emailData.to,
         subject: emailData.subject,
         html: emailData.html,
+        text: emailData.text,
       };
 
       const info = await this.transporter.sendMail(mailOptions);
@@ -51,122 +61,49 @@ class EmailService {
     }
   }
 
-  async sendPasswordEmail(employeeName: string, employeeEmail: string, plainPassword: string): Promise<boolean> {
-    const subject = 'Welcome to UShip - Your Account Credentials';
-    const html = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Welcome to UShip</title>
-        <style>
-          body {
-            font-family: Arial, sans-serif;
-            line-height: 1.6;
-            color: #333;
-            max-width: 600px;
-            margin: 0 auto;
-            padding: 20px;
-          }
-          .header {
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white;
-            padding: 30px;
-            text-align: center;
-            border-radius: 10px 10px 0 0;
-          }
-          .content {
-            background: #f9f9f9;
-            padding: 30px;
-            border-radius: 0 0 10px 10px;
-          }
-          .password-box {
-            background: #e8f4fd;
-            border: 2px solid #2196f3;
-            border-radius: 8px;
-            padding: 15px;
-            margin: 20px 0;
-            text-align: center;
-          }
-          .password {
-            font-size: 18px;
-            font-weight: bold;
-            color: #1976d2;
-            letter-spacing: 2px;
-          }
-          .warning {
-            background: #fff3cd;
-            border: 1px solid #ffeaa7;
-            border-radius: 5px;
-            padding: 15px;
-            margin: 20px 0;
-            color: #856404;
-          }
-          .button {
-            display: inline-block;
-            background: #667eea;
-            color: white;
-            padding: 12px 24px;
-            text-decoration: none;
-            border-radius: 5px;
-            margin: 20px 0;
-          }
-          .footer {
-            text-align: center;
-            margin-top: 30px;
-            color: #666;
-            font-size: 14px;
-          }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <h1>🚢 Welcome to UShip!</h1>
-          <p>Your account has been successfully created</p>
-        </div>
-        
-        <div class="content">
-          <h2>Hello ${employeeName},</h2>
-          
-          <p>Welcome to UShip! Your employee account has been successfully created. Below are your login credentials:</p>
-          
-          <div class="password-box">
-            <strong>Your Temporary Password:</strong><br>
-            <span class="password">${plainPassword}</span>
-          </div>
-          
-          <div class="warning">
-            <strong>⚠️ Important Security Notice:</strong><br>
-            This is your temporary password. For security reasons, please change your password immediately after your first login.
-          </div>
-          
-          <p>You can now log in to your account using your email address and the password above.</p>
-          
-          <a href="${process.env.FRONTEND_URL || 'http://localhost:5731'}/login" class="button">
-            Login to Your Account
-          </a>
-          
-          <p>If you have any questions or need assistance, please don't hesitate to contact our support team.</p>
-          
-          <p>Best regards,<br>
-          The UShip Team</p>
-        </div>
-        
-        <div class="footer">
-          <p>This is an automated message. Please do not reply to this email.</p>
-          <p>© 2024 UShip. All rights reserved.</p>
-        </div>
-      </body>
-      </html>
-    `;
+  // Renders a template in the recipient's locale and sends its HTML and plain-text parts. Like
+  // sendEmail it reports failure rather than throwing, including for unreadable templates.
+  async sendTemplate(name: EmailTemplateName, recipient: EmailRecipient, vars: TemplateVars): Promise<boolean> {
+    let email;
+    try {
+      email = await emailTemplateService.render(name, { employeeName: recipient.name, ...vars }, recipient.locale);
+    } catch (error) {
+      console.error(`Error rendering ${name} email:`, error);
+      return false;
+    }
+    return this.sendEmail({ to: recipient.email, subject: email.subject, html: email.html, text: email.text });
+  }
+
+  async sendWelcomeEmail(recipient: EmailRecipient, setPasswordLink: string, expiresAt: Date): Promise<boolean> {
+    return this.sendTemplate('welcome', recipient, { link: setPasswordLink, expiresAt });
+  }
+
+  async sendPasswordResetEmail(recipient: EmailRecipient, resetLink: string, expiresAt: Date): Promise<boolean> {
+    return this.sendTemplate('password-reset', recipient, { link: resetLink, expiresAt });
+  }
 
-    return await this.sendEmail({
-      to: employeeEmail,
-      subject,
-      html,
+  async sendStatusChangeEmail(recipient: EmailRecipient, previousStatus: string, status: string): Promise<boolean> {
+    return this.sendTemplate('status-change', recipient, { previousStatus, status, active: status === 'active' });
+  }
+
+  async sendLeaveDecisionEmail(
+    recipient: EmailRecipient,
+    leave: { type: string; startDate: Date; endDate: Date; days: number; status: string; decisionNote?: string | null }
+  ): Promise<boolean> {
+    return this.sendTemplate('leave-decision', recipient, {
+      leaveType: leave.type.toLowerCase(),
+      startDate: leave.startDate.toISOString().slice(0, 10),
+      endDate: leave.endDate.toISOString().slice(0, 10),
+      days: leave.days,
+      plural: leave.days !== 1,
+      approved: leave.status === 'APPROVED',
+      note: leave.decisionNote ?? null,
     });
   }
 }
 
-export const emailService = new EmailService(); 
\ No newline at end of file
+export const emailService = new EmailService();
+
+export {
+  EmailRecipient,
+};
@@ -0,0 +1,326 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+type EmailTemplateName = 'welcome' | 'password-reset' | 'status-change' | 'leave-decision' | 'notice';
+
+// Used when the recipient has no locale, or none of theirs has a template
+const DEFAULT_EMAIL_LOCALE = process.env.EMAIL_DEFAULT_LOCALE || 'en';
+// Per-deployment overrides live at <dir>/<locale>/<file>, e.g. templates/email/de/welcome.html.
+// Files are read once per process, so edits need a restart.
+const EMAIL_TEMPLATES_DIR = process.env.EMAIL_TEMPLATES_DIR || path.join(process.cwd(), 'templates', 'email');
+
+type TemplateValue = string | number | boolean | Date | null | undefined;
+type TemplateVars = Record<string, TemplateValue>;
+
+interface RenderedEmail {
+  // The locale the template was actually found in, after falling back
+  locale: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Template syntax: {{name}} inserts a value (HTML-escaped in .html parts), {{#name}}...{{/name}}
+// keeps its contents when the value is truthy and {{^name}}...{{/name}} when it is not. Dates are
+// formatted for the template's locale. The layout's {{{body}}} is the only unescaped insertion.
+const builtInTemplates: Record<string, Record<string, string>> = {
+  en: {
+    'layout.html': `<!DOCTYPE html>
+<html lang="{{locale}}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>{{subject}}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+    .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+    .warning { background: #fff3cd; border: 1px solid #ffeaa7; border-radius: 5px; padding: 15px; margin: 20px 0; color: #856404; }
+    .button { display: inline-block; background: #667eea; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 20px 0; }
+    .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+  </style>
+</head>
+<body>
+{{{body}}}
+  <div class="footer">
+    <p>This is an automated message. Please do not reply to this email.</p>
+    <p>© {{year}} UShip. All rights reserved.</p>
+  </div>
+</body>
+</html>
+`,
+
+    'welcome.subject.txt': 'Welcome to UShip - Set Up Your Account',
+    'welcome.html': `  <div class="header">
+    <h1>🚢 Welcome to UShip!</h1>
+    <p>Your account has been successfully created</p>
+  </div>
+  <div class="content">
+    <h2>Hello {{employeeName}},</h2>
+    <p>Welcome to UShip! Your employee account has been successfully created. To get started, choose a password using the link below:</p>
+    <a href="{{link}}" class="button">Set Your Password</a>
+    <div class="warning">
+      <strong>⚠️ Important Security Notice:</strong><br>
+      This link can only be used once and expires on {{expiresAt}}. If it expires, use "Forgot password" on the login page to request a new one.
+    </div>
+    <p>If you have any questions or need assistance, please don't hesitate to contact our support team.</p>
+    <p>Best regards,<br>The UShip Team</p>
+  </div>
+`,
+    'welcome.txt': `Hello {{employeeName}},
+
+Welcome to UShip! Your employee account has been successfully created. To get started, choose a password using this link:
+
+{{link}}
+
+This link can only be used once and expires on {{expiresAt}}. If it expires, use "Forgot password" on the login page to request a new one.
+
+Best regards,
+The UShip Team
+`,
+
+    'password-reset.subject.txt': 'UShip - Reset Your Password',
+    'password-reset.html': `  <div class="header">
+    <h1>🚢 UShip Password Reset</h1>
+    <p>A password reset was requested for your account</p>
+  </div>
+  <div class="content">
+    <h2>Hello {{employeeName}},</h2>
+    <p>We received a request to reset the password for your UShip account. Click the button below to choose a new password:</p>
+    <a href="{{link}}" class="button">Reset Your Password</a>
+    <div class="warning">
+      <strong>⚠️ Important Security Notice:</strong><br>
+      This link can only be used once and expires on {{expiresAt}}. If you did not request a password reset, you can safely ignore this email.
+    </div>
+    <p>Best regards,<br>The UShip Team</p>
+  </div>
+`,
+    'password-reset.txt': `Hello {{employeeName}},
+
+We received a request to reset the password for your UShip account. Choose a new password using this link:
+
+{{link}}
+
+This link can only be used once and expires on {{expiresAt}}. If you did not request a password reset, you can safely ignore this email.
+
+Best regards,
+The UShip Team
+`,
+
+    'status-change.subject.txt': 'UShip - Your account status has changed',
+    'status-change.html': `  <div class="header">
+    <h1>🚢 Account Status Update</h1>
+  </div>
+  <div class="content">
+    <h2>Hello {{employeeName}},</h2>
+    <p>The status of your UShip account has changed from <strong>{{previousStatus}}</strong> to <strong>{{status}}</strong>.</p>
+    {{^active}}<p>You have been signed out and cannot log in until your account is active again.</p>{{/active}}
+    <p>If you think this is a mistake, please contact your manager or HR.</p>
+    <p>Best regards,<br>The UShip Team</p>
+  </div>
+`,
+    'status-change.txt': `Hello {{employeeName}},
+
+The status of your UShip account has changed from {{previousStatus}} to {{status}}.
+{{^active}}
+You have been signed out and cannot log in until your account is active again.
+{{/active}}
+If you think this is a mistake, please contact your manager or HR.
+
+Best regards,
+The UShip Team
+`,
+
+    'leave-decision.subject.txt': 'UShip - Your leave request was {{#approved}}approved{{/approved}}{{^approved}}rejected{{/approved}}',
+    'leave-decision.html': `  <div class="header">
+    <h1>🚢 Leave Request {{#approved}}Approved{{/approved}}{{^approved}}Rejected{{/approved}}</h1>
+  </div>
+  <div class="content">
+    <h2>Hello {{employeeName}},</h2>
+    <p>Your {{leaveType}} leave request for {{startDate}} to {{endDate}} ({{days}} working day{{#plural}}s{{/plural}}) has been {{#approved}}approved{{/approved}}{{^approved}}rejected{{/approved}}.</p>
+    {{#note}}<p><strong>Note from your approver:</strong> {{note}}</p>{{/note}}
+    <p>Best regards,<br>The UShip Team</p>
+  </div>
+`,
+    'leave-decision.txt': `Hello {{employeeName}},
+
+Your {{leaveType}} leave request for {{startDate}} to {{endDate}} ({{days}} working day{{#plural}}s{{/plural}}) has been {{#approved}}approved{{/approved}}{{^approved}}rejected{{/approved}}.
+{{#note}}
+Note from your approver: {{note}}
+{{/note}}
+Best regards,
+The UShip Team
+`,
+
+    'notice.subject.txt': 'UShip - {{title}}',
+    'notice.html': `  <div class="header">
+    <h1>🚢 {{title}}</h1>
+  </div>
+  <div class="content">
+    <h2>Hello {{employeeName}},</h2>
+    <p>{{message}}</p>
+    {{#link}}<a href="{{link}}" class="button">{{#linkLabel}}{{linkLabel}}{{/linkLabel}}{{^linkLabel}}Open UShip{{/linkLabel}}</a>{{/link}}
+    <p>Best regards,<br>The UShip Team</p>
+  </div>
+`,
+    'notice.txt': `Hello {{employeeName}},
+
+{{message}}
+{{#link}}
+{{link}}
+{{/link}}
+Best regards,
+The UShip Team
+`,
+  },
+};
+
+// Values the admin preview renders each template with
+const sampleVars: Record<EmailTemplateName, TemplateVars> = {
+  welcome: {
+    employeeName: 'Ada Lovelace',
+    link: 'https://uship.example/reset-password?token=preview',
+    expiresAt: new Date(Date.UTC(2030, 0, 3, 9, 0)),
+  },
+  'password-reset': {
+    employeeName: 'Ada Lovelace',
+    link: 'https://uship.example/reset-password?token=preview',
+    expiresAt: new Date(Date.UTC(2030, 0, 1, 10, 0)),
+  },
+  'status-change': { employeeName: 'Ada Lovelace', previousStatus: 'active', status: 'suspended', active: false },
+  'leave-decision': {
+    employeeName: 'Ada Lovelace',
+    leaveType: 'annual',
+    startDate: '2030-07-01',
+    endDate: '2030-07-05',
+    days: 5,
+    plural: true,
+    approved: true,
+    note: 'Enjoy your holiday!',
+  },
+  notice: {
+    employeeName: 'Ada Lovelace',
+    title: 'Office closure',
+    message: 'The office will be closed on Friday for maintenance.',
+    link: 'https://uship.example/announcements',
+    linkLabel: 'Read more',
+  },
+};
+
+// Locale tags are used as directory names, so anything else is ignored rather than read from disk
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+function isValidLocale(locale: string): boolean {
+  return LOCALE_PATTERN.test(locale);
+}
+
+// Most specific first, e.g. pt-BR, then pt, then the default
+function localeCandidates(locale: string | null | undefined): string[] {
+  const candidates: string[] = [];
+  if (locale && isValidLocale(locale)) {
+    const parts = locale.split('-');
+    for (let i = parts.length; i > 0; i--) candidates.push(parts.slice(0, i).join('-'));
+  }
+  candidates.push(DEFAULT_EMAIL_LOCALE, 'en');
+  return [...new Set(candidates)];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatValue(value: TemplateValue, locale: string): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'full', timeStyle: 'long', timeZone: 'UTC' }).format(value);
+  }
+  return String(value);
+}
+
+function renderString(
+  source: string,
+  vars: TemplateVars,
+  locale: string,
+  escape: (value: string) => string,
+  raw: Record<string, string> = {}
+): string {
+  // Innermost sections first, so differently named sections can nest
+  const section = /\{\{([#^])(\w+)\}\}((?:(?!\{\{[#^])[\s\S])*?)\{\{\/\2\}\}/;
+  let output = source;
+  while (section.test(output)) {
+    output = output.replace(section, (_match, kind: string, key: string, inner: string) =>
+      (kind === '#') === Boolean(vars[key]) ? inner : ''
+    );
+  }
+  return output.replace(/\{\{\{(\w+)\}\}\}|\{\{(\w+)\}\}/g, (_match, rawKey: string | undefined, key: string | undefined) =>
+    rawKey !== undefined ? raw[rawKey] ?? '' : escape(formatValue(vars[key!], locale))
+  );
+}
+
+class EmailTemplateService {
+  private files = new Map<string, Promise<string | null>>();
+
+  private readOverride(locale: string, file: string): Promise<string | null> {
+    const key = `${locale}/${file}`;
+    let pending = this.files.get(key);
+    if (!pending) {
+      pending = fs.readFile(path.join(EMAIL_TEMPLATES_DIR, locale, file), 'utf8').catch((error) => {
+        if (error.code === 'ENOENT' || error.code === 'ENOTDIR') return null;
+        throw error;
+      });
+      this.files.set(key, pending);
+    }
+    return pending;
+  }
+
+  // First locale with the file, checking the deployment's overrides before the built-ins
+  private async lookup(candidates: string[], file: string): Promise<{ locale: string; source: string }> {
+    for (const locale of candidates) {
+      const source = (await this.readOverride(locale, file)) ?? builtInTemplates[locale]?.[file];
+      if (source !== undefined && source !== null) return { locale, source };
+    }
+    throw new Error(`Email template ${file} not found`);
+  }
+
+  async render(name: EmailTemplateName, vars: TemplateVars, locale?: string | null): Promise<RenderedEmail> {
+    const candidates = localeCandidates(locale);
+    // The HTML part decides the locale; the other parts fall back from there
+    const html = await this.lookup(candidates, `${name}.html`);
+    const fallback = candidates.slice(candidates.indexOf(html.locale));
+    const [subject, text, layout] = await Promise.all([
+      this.lookup(fallback, `${name}.subject.txt`),
+      this.lookup(fallback, `${name}.txt`),
+      this.lookup(fallback, 'layout.html'),
+    ]);
+
+    const identity = (value: string) => value;
+    const renderedSubject = renderString(subject.source, vars, html.locale, identity).replace(/\s+/g, ' ').trim();
+    const body = renderString(html.source, vars, html.locale, escapeHtml);
+    const layoutVars = { ...vars, subject: renderedSubject, locale: html.locale, year: new Date().getUTCFullYear() };
+    return {
+      locale: html.locale,
+      subject: renderedSubject,
+      html: renderString(layout.source, layoutVars, html.locale, escapeHtml, { body }),
+      text: renderString(text.source, vars, html.locale, identity),
+    };
+  }
+
+  preview(name: EmailTemplateName, locale?: string | null): Promise<RenderedEmail> {
+    return this.render(name, sampleVars[name], locale);
+  }
+}
+
+export const emailTemplateService = new EmailTemplateService();
+
+export {
+  EmailTemplateName,
+  TemplateVars,
+  RenderedEmail,
+  escapeHtml,
+  isValidLocale,
+};
@@ -0,0 +1,203 @@
+import { once } from 'events';
+import { Request, Response } from 'express';
+import ExcelJS from 'exceljs';
+import { ApolloError } from 'apollo-server-express';
+import { buildASTSchema, coerceInputValue, GraphQLInputType, GraphQLList, GraphQLNonNull } from 'graphql';
+import { typeDefs } from './schema';
+import { canViewField } from './authDirective';
+import { hasPermission, Permission, scopeWhere } from './permissions';
+import { buildEmployeeWhere } from './employeeFilter';
+import { buildEmployeeOrderBy, cursorWhere, employeeSortFields, legacyOrderBy, normalizeOrder } from './employeeOrder';
+import { prisma } from './performance/databaseOptimizer';
+
+// Rows are read in keyset-paged batches so the full result set never sits in memory
+const EXPORT_BATCH_SIZE = 500;
+
+type ExportFormat = 'csv' | 'xlsx';
+
+interface ExportColumn {
+  header: string;
+  value: (employee: any) => string | number | null;
+  // Same rule as the field's @auth directive in schema.ts
+  requires?: Permission;
+}
+
+// Everything an export may contain. `password` is deliberately absent.
+const exportColumns: Record<string, ExportColumn> = {
+  id: { header: 'ID', value: (e) => e.id },
+  name: { header: 'Name', value: (e) => e.name },
+  email: { header: 'Email', value: (e) => e.email },
+  age: { header: 'Age', value: (e) => e.age, requires: 'personal:read' },
+  department: { header: 'Department', value: (e) => e.department?.name ?? null },
+  position: { header: 'Position', value: (e) => e.position },
+  salary: { header: 'Salary', value: (e) => e.salary, requires: 'salary:read' },
+  class: { header: 'Class', value: (e) => e.class },
+  subjects: { header: 'Subjects', value: (e) => e.subjects.map((s: any) => s.name).join('; ') },
+  attendance: { header: 'Attendance', value: (e) => e.attendance },
+  avatar: { header: 'Avatar', value: (e) => e.avatar },
+  phone: { header: 'Phone', value: (e) => e.phone, requires: 'personal:read' },
+  address: { header: 'Address', value: (e) => e.address, requires: 'personal:read' },
+  startDate: { header: 'Start Date', value: (e) => e.startDate?.toISOString().slice(0, 10) ?? null },
+  status: { header: 'Status', value: (e) => e.status },
+  role: { header: 'Role', value: (e) => e.role },
+  deletedAt: { header: 'Archived At', value: (e) => e.deletedAt?.toISOString() ?? null },
+};
+
+const defaultColumns = Object.keys(exportColumns).filter((key) => key !== 'deletedAt');
+
+class ExportRequestError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ExportRequestError';
+  }
+}
+
+// The request body reuses the GraphQL input types, so filters and sorts are validated
+// exactly as they are for the `employees` query
+const inputSchema = buildASTSchema(typeDefs);
+
+function coerceInput(value: unknown, type: GraphQLInputType, name: string): any {
+  if (value === undefined || value === null) return undefined;
+  return coerceInputValue(value, type, (path, _invalid, error) => {
+    const at = path.length > 0 ? `${name}.${path.join('.')}` : name;
+    throw new ExportRequestError(`Invalid ${at}: ${error.message}`);
+  });
+}
+
+function parseExportRequest(body: any) {
+  const format: ExportFormat = body.format ?? 'csv';
+  if (format !== 'csv' && format !== 'xlsx') throw new ExportRequestError('format must be csv or xlsx');
+
+  const fields: string[] = body.fields ?? defaultColumns;
+  if (!Array.isArray(fields) || fields.length === 0) throw new ExportRequestError('fields must be a non-empty list');
+  const unknown = fields.filter((field) => !Object.prototype.hasOwnProperty.call(exportColumns, field));
+  if (unknown.length > 0) throw new ExportRequestError(`Cannot export fields: ${unknown.join(', ')}`);
+
+  const filterType = inputSchema.getType('EmployeeFilter') as GraphQLInputType;
+  const orderByType = new GraphQLList(new GraphQLNonNull(inputSchema.getType('EmployeeOrderBy') as GraphQLInputType));
+  return {
+    format,
+    fields: [...new Set(fields)],
+    filter: coerceInput(body.filter, filterType, 'filter'),
+    orderBy: coerceInput(body.orderBy, orderByType, 'orderBy'),
+    sortBy: typeof body.sortBy === 'string' ? body.sortBy : 'id',
+    sortOrder: typeof body.sortOrder === 'string' ? body.sortOrder : 'asc',
+    includeArchived: body.includeArchived === true,
+  };
+}
+
+// CSV cells starting with a formula character are prefixed so spreadsheets treat them as text
+function csvCell(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Waits until the client has taken the buffered output. Resolves false if the connection closed
+// first, in which case there is no point producing more.
+async function waitForDrain(res: Response): Promise<boolean> {
+  if (res.destroyed) return false;
+  if (!res.writableNeedDrain) return true;
+  const abort = new AbortController();
+  try {
+    return await Promise.race([
+      once(res, 'drain', { signal: abort.signal }).then(() => true),
+      once(res, 'close', { signal: abort.signal }).then(() => false),
+    ]);
+  } finally {
+    abort.abort();
+  }
+}
+
+async function writeChunk(res: Response, chunk: string): Promise<boolean> {
+  return res.write(chunk) || waitForDrain(res);
+}
+
+// POST /export/employees with a JSON body of { format, fields, filter, orderBy, includeArchived }.
+// Streams every matching employee the caller can see; restricted columns are left blank per row.
+async function exportEmployees(req: Request, res: Response) {
+  const user = (req as any).user;
+  let options: ReturnType<typeof parseExportRequest>;
+  let where: any;
+  let order: ReturnType<typeof normalizeOrder>;
+  try {
+    if (!user) throw new ExportRequestError('Not authenticated', 401);
+    if (!hasPermission(user, 'employee:read')) throw new ExportRequestError('Not authorized', 403);
+    options = parseExportRequest(req.body || {});
+    if (options.includeArchived && !hasPermission(user, 'employee:delete')) {
+      throw new ExportRequestError('Not authorized to view archived employees', 403);
+    }
+    where = {
+      AND: [scopeWhere(user), buildEmployeeWhere(user, options.filter), options.includeArchived ? {} : { deletedAt: null }],
+    };
+    order = normalizeOrder(user, options.orderBy ?? legacyOrderBy(options.sortBy, options.sortOrder));
+  } catch (error: any) {
+    if (error instanceof ExportRequestError) {
+      res.status(error.statusCode).json({ error: error.message });
+    } else if (error instanceof ApolloError) {
+      res.status(error.extensions.code === 'FORBIDDEN' ? 403 : 400).json({ error: error.message });
+    } else {
+      console.error('Error preparing employee export:', error);
+      res.status(500).json({ error: 'Export failed' });
+    }
+    return;
+  }
+
+  const columns = options.fields.map((field) => exportColumns[field]);
+  const row = (employee: any) =>
+    columns.map((column) =>
+      !column.requires || canViewField(user, column.requires, 'Employee', employee) ? column.value(employee) : null
+    );
+
+  const filename = `employees-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader(
+    'Content-Type',
+    options.format === 'csv'
+      ? 'text/csv; charset=utf-8'
+      : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+
+  let workbook: ExcelJS.stream.xlsx.WorkbookWriter | undefined;
+  let sheet: ExcelJS.Worksheet | undefined;
+  if (options.format === 'xlsx') {
+    workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: false, useSharedStrings: false });
+    sheet = workbook.addWorksheet('Employees');
+    sheet.addRow(columns.map((column) => column.header)).commit();
+  } else if (!(await writeChunk(res, columns.map((column) => csvCell(column.header)).join(',') + '\r\n'))) {
+    return;
+  }
+
+  try {
+    let cursor: any = undefined;
+    for (;;) {
+      const batch = await prisma.employee.findMany({
+        where: cursor ? { AND: [where, cursor] } : where,
+        include: { subjects: { orderBy: { name: 'asc' } }, department: true },
+        orderBy: buildEmployeeOrderBy(order),
+        take: EXPORT_BATCH_SIZE,
+      });
+      for (const employee of batch) {
+        if (sheet) sheet.addRow(row(employee)).commit();
+        else if (!(await writeChunk(res, row(employee).map(csvCell).join(',') + '\r\n'))) return;
+      }
+      // The workbook is zipped straight into the response, so it only backs up there
+      if (sheet && !(await waitForDrain(res))) return;
+      if (batch.length < EXPORT_BATCH_SIZE) break;
+      const last = batch[batch.length - 1];
+      cursor = cursorWhere(order, order.map(({ field }) => employeeSortFields[field].value(last)));
+    }
+    if (workbook) await workbook.commit();
+    else res.end();
+  } catch (error) {
+    // Headers are already sent, so the only signal left is cutting the download short
+    console.error('Error exporting employees:', error);
+    res.destroy(error as Error);
+  }
+}
+
+export {
+  exportColumns,
+  exportEmployees,
+};
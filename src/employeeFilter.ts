@@ -0,0 +1,204 @@
+import { Prisma, Role } from '@prisma/client';
+import { ForbiddenError, UserInputError } from 'apollo-server-express';
+import { hasPermission, Permission, Viewer } from './permissions';
+
+// Guards against filters built to make the database do unbounded work
+const MAX_FILTER_DEPTH = 5;
+const MAX_FILTER_NODES = 50;
+const MAX_IN_VALUES = 100;
+
+interface StringFilterInput {
+  equals?: string | null;
+  in?: string[] | null;
+  contains?: string | null;
+}
+
+interface RangeInput {
+  gt?: number | null;
+  gte?: number | null;
+  lt?: number | null;
+  lte?: number | null;
+}
+
+interface EmployeeFilterInput {
+  name?: StringFilterInput | null;
+  email?: StringFilterInput | null;
+  class?: StringFilterInput | null;
+  department?: StringFilterInput | null;
+  position?: StringFilterInput | null;
+  salary?: RangeInput | null;
+  age?: RangeInput | null;
+  attendance?: RangeInput | null;
+  // Unix seconds, like every other date in the API
+  startDate?: RangeInput | null;
+  status?: string[] | null;
+  role?: Role[] | null;
+  AND?: EmployeeFilterInput[] | null;
+  OR?: EmployeeFilterInput[] | null;
+  NOT?: EmployeeFilterInput | null;
+}
+
+// Filtering on a restricted field would reveal its value, so it needs the same permission as reading it
+const fieldPermissions: Partial<Record<keyof EmployeeFilterInput, Permission>> = {
+  salary: 'salary:read',
+  age: 'personal:read',
+};
+
+function checkInList<T>(field: string, values: T[]): T[] {
+  if (values.length > MAX_IN_VALUES) {
+    throw new UserInputError(`Filter on ${field} accepts at most ${MAX_IN_VALUES} values`);
+  }
+  return values;
+}
+
+function stringWhere(field: string, input: StringFilterInput): Prisma.StringFilter {
+  const where: Prisma.StringFilter = {};
+  if (input.equals != null) where.equals = input.equals;
+  if (input.in != null) where.in = checkInList(field, input.in);
+  if (input.contains != null) where.contains = input.contains;
+  return where;
+}
+
+function rangeWhere<T>(input: RangeInput, convert: (value: number) => T) {
+  const where: { gt?: T; gte?: T; lt?: T; lte?: T } = {};
+  for (const op of ['gt', 'gte', 'lt', 'lte'] as const) {
+    const value = input[op];
+    if (value != null) where[op] = convert(value);
+  }
+  return where;
+}
+
+function toDate(seconds: number): Date {
+  return new Date(seconds * 1000);
+}
+
+// Translates an EmployeeFilter into a Prisma where clause. Only the fields and operators declared
+// above are read, so arbitrary client input never reaches Prisma directly.
+function buildEmployeeWhere(user: Viewer, filter: EmployeeFilterInput | null | undefined): Prisma.EmployeeWhereInput {
+  if (!filter) return {};
+  let nodes = 0;
+
+  const build = (node: EmployeeFilterInput, depth: number): Prisma.EmployeeWhereInput => {
+    if (depth > MAX_FILTER_DEPTH) {
+      throw new UserInputError(`Employee filters cannot be nested more than ${MAX_FILTER_DEPTH} levels deep`);
+    }
+    if (++nodes > MAX_FILTER_NODES) {
+      throw new UserInputError(`Employee filters cannot combine more than ${MAX_FILTER_NODES} conditions`);
+    }
+    return filterToWhere(user, node, (child) => build(child, depth + 1));
+  };
+
+  return build(filter, 1);
+}
+
+function filterToWhere(
+  user: Viewer,
+  filter: EmployeeFilterInput,
+  nested: (filter: EmployeeFilterInput) => Prisma.EmployeeWhereInput
+): Prisma.EmployeeWhereInput {
+  for (const [field, permission] of Object.entries(fieldPermissions)) {
+    if (filter[field as keyof EmployeeFilterInput] != null && !hasPermission(user, permission!)) {
+      throw new ForbiddenError(`Not authorized to filter on ${field}`);
+    }
+  }
+
+  const where: Prisma.EmployeeWhereInput = {};
+  if (filter.name) where.name = stringWhere('name', filter.name);
+  if (filter.email) where.email = stringWhere('email', filter.email);
+  if (filter.class) where.class = stringWhere('class', filter.class);
+  if (filter.position) where.position = stringWhere('position', filter.position);
+  if (filter.department) {
+    where.department = { is: { name: stringWhere('department', filter.department) } };
+  }
+  if (filter.salary) where.salary = rangeWhere(filter.salary, Number);
+  if (filter.age) where.age = rangeWhere(filter.age, Math.floor);
+  if (filter.attendance) where.attendance = rangeWhere(filter.attendance, Number);
+  if (filter.startDate) where.startDate = rangeWhere(filter.startDate, toDate);
+  if (filter.status) where.status = { in: checkInList('status', filter.status) };
+  if (filter.role) where.role = { in: checkInList('role', filter.role) };
+  if (filter.AND) where.AND = filter.AND.map(nested);
+  if (filter.OR) where.OR = filter.OR.map(nested);
+  if (filter.NOT) where.NOT = nested(filter.NOT);
+  return where;
+}
+
+// Three-valued result of checking a filter in memory. MySQL compares text case- and
+// accent-insensitively and NULLs make conditions unknown, so some rows cannot be decided here.
+type FilterMatch = 'yes' | 'no' | 'maybe';
+
+function foldText(value: string): string {
+  return value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trimEnd();
+}
+
+function textMatch(value: string | null | undefined, input: StringFilterInput): FilterMatch {
+  if (value == null) return 'maybe';
+  const checks: FilterMatch[] = [];
+  const compare = (exact: boolean, folded: boolean): FilterMatch => (exact ? 'yes' : folded ? 'maybe' : 'no');
+  if (input.equals != null) checks.push(compare(value === input.equals, foldText(value) === foldText(input.equals)));
+  if (input.in != null) {
+    checks.push(
+      compare(input.in.includes(value), input.in.some((option) => foldText(option) === foldText(value)))
+    );
+  }
+  if (input.contains != null) {
+    checks.push(compare(value.includes(input.contains), foldText(value).includes(foldText(input.contains))));
+  }
+  return allOf(checks);
+}
+
+function rangeMatch(value: number | null | undefined, input: RangeInput): FilterMatch {
+  if (value == null) return 'maybe';
+  const { gt, gte, lt, lte } = input;
+  const inRange = (gt == null || value > gt) && (gte == null || value >= gte) && (lt == null || value < lt) && (lte == null || value <= lte);
+  return inRange ? 'yes' : 'no';
+}
+
+function allOf(results: FilterMatch[]): FilterMatch {
+  if (results.includes('no')) return 'no';
+  return results.includes('maybe') ? 'maybe' : 'yes';
+}
+
+function anyOf(results: FilterMatch[]): FilterMatch {
+  if (results.includes('yes')) return 'yes';
+  return results.includes('maybe') ? 'maybe' : 'no';
+}
+
+function filterMatch(filter: EmployeeFilterInput, employee: any): FilterMatch {
+  const checks: FilterMatch[] = [];
+  if (filter.name) checks.push(textMatch(employee.name, filter.name));
+  if (filter.email) checks.push(textMatch(employee.email, filter.email));
+  if (filter.class) checks.push(textMatch(employee.class, filter.class));
+  if (filter.position) checks.push(textMatch(employee.position, filter.position));
+  // Snapshots loaded without the department relation cannot be decided
+  if (filter.department) checks.push(textMatch(employee.department?.name, filter.department));
+  if (filter.salary) checks.push(rangeMatch(employee.salary, filter.salary));
+  if (filter.age) checks.push(rangeMatch(employee.age, filter.age));
+  if (filter.attendance) checks.push(rangeMatch(employee.attendance, filter.attendance));
+  if (filter.startDate) {
+    const seconds = employee.startDate instanceof Date ? employee.startDate.getTime() / 1000 : employee.startDate;
+    checks.push(rangeMatch(seconds, filter.startDate));
+  }
+  if (filter.status) {
+    checks.push(textMatch(employee.status, { in: filter.status }));
+  }
+  if (filter.role) checks.push(employee.role == null ? 'maybe' : filter.role.includes(employee.role) ? 'yes' : 'no');
+  if (filter.AND) checks.push(allOf(filter.AND.map((child) => filterMatch(child, employee))));
+  if (filter.OR) checks.push(anyOf(filter.OR.map((child) => filterMatch(child, employee))));
+  if (filter.NOT) {
+    const inner = filterMatch(filter.NOT, employee);
+    checks.push(inner === 'maybe' ? 'maybe' : inner === 'yes' ? 'no' : 'yes');
+  }
+  return allOf(checks);
+}
+
+// Whether the database could return this employee for the filter. Used to decide which cached
+// pages a change affects, so it errs towards true whenever the answer is unclear.
+function employeeMayMatch(filter: EmployeeFilterInput | null | undefined, employee: any): boolean {
+  return !filter || filterMatch(filter, employee) !== 'no';
+}
+
+export {
+  EmployeeFilterInput,
+  buildEmployeeWhere,
+  employeeMayMatch,
+};
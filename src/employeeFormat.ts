@@ -0,0 +1,15 @@
+// Employee reads always load subjects and department so their fields resolve without another query
+const employeeInclude = { subjects: { orderBy: { name: 'asc' as const } }, department: true };
+
+// Every Employee returned through the API carries startDate in Unix seconds
+function formatEmployee(employee: any) {
+  return employee && {
+    ...employee,
+    startDate: employee.startDate ? Math.floor(employee.startDate.getTime() / 1000) : null,
+  };
+}
+
+export {
+  employeeInclude,
+  formatEmployee,
+};
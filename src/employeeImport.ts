@@ -0,0 +1,239 @@
+import { Role } from '@prisma/client';
+import { UserInputError } from 'apollo-server-express';
+
+const MAX_IMPORT_ROWS = parseInt(process.env.MAX_IMPORT_ROWS || '500');
+
+// Subjects share one CSV column, separated by semicolons or pipes
+const SUBJECT_SEPARATOR = /[;|]/;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type ImportField =
+  | 'name'
+  | 'email'
+  | 'age'
+  | 'class'
+  | 'subjects'
+  | 'attendance'
+  | 'department'
+  | 'position'
+  | 'salary'
+  | 'avatar'
+  | 'phone'
+  | 'address'
+  | 'startDate'
+  | 'status'
+  | 'role';
+
+// Accepted header spellings, compared case-insensitively with spaces, dashes and underscores removed
+const headerAliases: Record<string, ImportField> = {
+  name: 'name',
+  fullname: 'name',
+  email: 'email',
+  emailaddress: 'email',
+  age: 'age',
+  class: 'class',
+  subjects: 'subjects',
+  attendance: 'attendance',
+  department: 'department',
+  position: 'position',
+  title: 'position',
+  salary: 'salary',
+  avatar: 'avatar',
+  phone: 'phone',
+  address: 'address',
+  startdate: 'startDate',
+  status: 'status',
+  role: 'role',
+};
+
+interface ImportRowError {
+  row: number;
+  field: string | null;
+  message: string;
+}
+
+interface ImportedEmployee {
+  // Position of the record in the CSV, counting the header as row 1
+  row: number;
+  name: string;
+  email: string;
+  age?: number;
+  class: string;
+  subjects: string[];
+  attendance?: number;
+  department?: string;
+  position?: string;
+  salary?: number;
+  avatar?: string;
+  phone?: string;
+  address?: string;
+  startDate?: Date;
+  status: string;
+  role?: Role;
+}
+
+// RFC 4180 parsing: quoted fields may contain commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new UserInputError('CSV has an unterminated quoted field');
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]/g, '');
+}
+
+function parseNumber(value: string, integer: boolean): number | null {
+  const number = Number(value);
+  if (value === '' || !Number.isFinite(number) || (integer && !Number.isInteger(number))) return null;
+  return number;
+}
+
+// Dates may be ISO (2024-03-01) or Unix seconds like the rest of the API
+function parseDate(value: string): Date | null {
+  const date = /^\d+$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Parses and validates an employee CSV. Rows with any error are reported and left out of `employees`;
+// checks that need the database (existing emails, departments, permissions) are up to the caller.
+function parseEmployeeCsv(csv: string): { employees: ImportedEmployee[]; errors: ImportRowError[]; totalRows: number } {
+  const records = parseCsv(csv);
+  if (records.length === 0) throw new UserInputError('CSV is empty');
+
+  const [headerRecord, ...rowRecords] = records;
+  const columns = headerRecord.map((header) => headerAliases[normalizeHeader(header)]);
+  const unknown = headerRecord.filter((_header, i) => !columns[i]);
+  if (unknown.length > 0) throw new UserInputError(`Unknown CSV columns: ${unknown.join(', ')}`);
+  for (const required of ['name', 'email', 'class'] as const) {
+    if (!columns.includes(required)) throw new UserInputError(`CSV is missing the ${required} column`);
+  }
+
+  // Blank lines are skipped but still count towards row numbers
+  const rows = rowRecords
+    .map((record, i) => ({ record, row: i + 2 }))
+    .filter(({ record }) => record.some((value) => value.trim() !== ''));
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new UserInputError(`CSV has ${rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`);
+  }
+
+  const employees: ImportedEmployee[] = [];
+  const errors: ImportRowError[] = [];
+  const firstRowByEmail = new Map<string, number>();
+
+  for (const { record, row } of rows) {
+    const rowErrors: ImportRowError[] = [];
+    const fail = (field: string | null, message: string) => rowErrors.push({ row, field, message });
+    if (record.length !== columns.length) {
+      fail(null, `Expected ${columns.length} columns but found ${record.length}`);
+      errors.push(...rowErrors);
+      continue;
+    }
+
+    const values: Partial<Record<ImportField, string>> = {};
+    columns.forEach((column, i) => {
+      values[column] = record[i].trim();
+    });
+    const optional = (field: ImportField) => (values[field] ? values[field] : undefined);
+
+    const employee: ImportedEmployee = {
+      row,
+      name: values.name || '',
+      email: (values.email || '').toLowerCase(),
+      class: values.class || '',
+      subjects: (values.subjects || '').split(SUBJECT_SEPARATOR).map((s) => s.trim()).filter(Boolean),
+      department: optional('department'),
+      position: optional('position'),
+      avatar: optional('avatar'),
+      phone: optional('phone'),
+      address: optional('address'),
+      status: values.status || 'active',
+    };
+
+    if (!employee.name) fail('name', 'Name cannot be empty');
+    if (!employee.class) fail('class', 'Class cannot be empty');
+    if (!employee.email) {
+      fail('email', 'Email cannot be empty');
+    } else if (!EMAIL_PATTERN.test(employee.email)) {
+      fail('email', 'Email is not valid');
+    } else if (firstRowByEmail.has(employee.email)) {
+      fail('email', `Duplicate email; already used on row ${firstRowByEmail.get(employee.email)}`);
+    } else {
+      firstRowByEmail.set(employee.email, row);
+    }
+
+    if (values.age) {
+      const age = parseNumber(values.age, true);
+      if (age === null || age < 0) fail('age', 'Age must be a whole number');
+      else employee.age = age;
+    }
+    if (values.attendance) {
+      const attendance = parseNumber(values.attendance, false);
+      if (attendance === null || attendance < 0) fail('attendance', 'Attendance must be a number');
+      else employee.attendance = attendance;
+    }
+    if (values.salary) {
+      const salary = parseNumber(values.salary, false);
+      if (salary === null || salary < 0) fail('salary', 'Salary must be a number');
+      else employee.salary = salary;
+    }
+    if (values.startDate) {
+      const startDate = parseDate(values.startDate);
+      if (!startDate) fail('startDate', 'Start date must be an ISO date or Unix seconds');
+      else employee.startDate = startDate;
+    }
+    if (values.role) {
+      const role = values.role.toUpperCase();
+      if (!Object.prototype.hasOwnProperty.call(Role, role)) fail('role', `Role must be one of ${Object.keys(Role).join(', ')}`);
+      else employee.role = role as Role;
+    }
+
+    if (rowErrors.length > 0) errors.push(...rowErrors);
+    else employees.push(employee);
+  }
+
+  return { employees, errors, totalRows: rows.length };
+}
+
+export {
+  ImportRowError,
+  ImportedEmployee,
+  parseCsv,
+  parseEmployeeCsv,
+};
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildEmployeeOrderBy, cursorWhere, EmployeeOrderByInput, employeeSortFields } from './employeeOrder';
+
+// New employees have no attendance until it is first recorded
+const rows = [
+  { id: 1, attendance: 90 },
+  { id: 2, attendance: null },
+  { id: 3, attendance: 75 },
+  { id: 4, attendance: null },
+  { id: 5, attendance: 90 },
+  { id: 6, attendance: null },
+];
+
+// Evaluates the subset of Prisma filters that cursorWhere produces for scalar columns
+function matches(row: any, where: any): boolean {
+  return Object.entries(where).every(([key, condition]: [string, any]) => {
+    if (key === 'OR') return condition.some((w: any) => matches(row, w));
+    if (key === 'AND') return condition.every((w: any) => matches(row, w));
+    const value = row[key];
+    if (condition === null || typeof condition !== 'object') return value === condition;
+    return Object.entries(condition).every(([op, operand]: [string, any]) => {
+      if (op === 'not') return value !== operand;
+      if (value === null) return false;
+      return op === 'gt' ? value > operand : value < operand;
+    });
+  });
+}
+
+// MySQL order: NULLs first ascending and last descending
+function sorted(order: EmployeeOrderByInput[], reverse: boolean = false) {
+  const orderBy = buildEmployeeOrderBy(order, reverse);
+  return [...rows].sort((a: any, b: any) => {
+    for (const clause of orderBy) {
+      const [column, dir] = Object.entries(clause)[0] as [string, string];
+      const [x, y] = [a[column], b[column]];
+      if (x === y) continue;
+      const cmp = x === null ? -1 : y === null ? 1 : x < y ? -1 : 1;
+      return dir === 'asc' ? cmp : -cmp;
+    }
+    return 0;
+  });
+}
+
+function values(order: EmployeeOrderByInput[], row: any) {
+  return order.map(({ field }) => employeeSortFields[field].value(row));
+}
+
+function pageThrough(order: EmployeeOrderByInput[], before: boolean, start: any): number[] {
+  const seen: number[] = [];
+  let cursor = start;
+  for (;;) {
+    const page = sorted(order, before)
+      .filter((row) => matches(row, cursorWhere(order, values(order, cursor), before)))
+      .slice(0, 2);
+    if (page.length === 0) return seen;
+    seen.push(...page.map((row) => row.id));
+    cursor = page[page.length - 1];
+  }
+}
+
+for (const direction of ['ASC', 'DESC'] as const) {
+  const order: EmployeeOrderByInput[] = [{ field: 'ATTENDANCE', direction }, { field: 'ID', direction: 'ASC' }];
+
+  test(`paging forwards by attendance ${direction} visits NULL rows exactly once`, () => {
+    const all = sorted(order).map((row) => row.id);
+    assert.deepEqual([all[0], ...pageThrough(order, false, rows.find((row) => row.id === all[0]))], all);
+  });
+
+  test(`paging backwards by attendance ${direction} visits NULL rows exactly once`, () => {
+    const all = sorted(order).map((row) => row.id);
+    const last = rows.find((row) => row.id === all[all.length - 1]);
+    assert.deepEqual([...pageThrough(order, true, last)].reverse(), all.slice(0, -1));
+  });
+}
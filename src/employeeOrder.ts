@@ -0,0 +1,187 @@
+import { Prisma, Role } from '@prisma/client';
+import { ForbiddenError, UserInputError } from 'apollo-server-express';
+import { hasPermission, Permission, Viewer } from './permissions';
+
+type SortDirection = 'ASC' | 'DESC';
+
+interface EmployeeOrderByInput {
+  field: string;
+  direction?: SortDirection | null;
+}
+
+type Comparison = 'gt' | 'lt';
+
+// How to sort and page on one EmployeeSortField. `compare` returns the rows strictly past a value
+// in the given comparison, following MySQL's ordering of NULLs first ascending and last descending.
+interface SortField {
+  orderBy: (dir: Prisma.SortOrder) => Prisma.EmployeeOrderByWithRelationInput;
+  value: (employee: any) => unknown;
+  equals: (value: any) => Prisma.EmployeeWhereInput;
+  compare: (op: Comparison, value: any) => Prisma.EmployeeWhereInput | null;
+  // Cursor values go through JSON, so dates need converting back
+  parse?: (value: any) => unknown;
+  permission?: Permission;
+}
+
+function scalarField(column: string, options: { nullable?: boolean; parse?: (value: any) => unknown; permission?: Permission } = {}): SortField {
+  return {
+    orderBy: (dir) => ({ [column]: dir }),
+    value: (employee) => employee[column] ?? null,
+    equals: (value) => ({ [column]: value }),
+    compare: (op, value) => {
+      if (value === null) return op === 'gt' ? { [column]: { not: null } } : null;
+      const past = { [column]: { [op]: value } };
+      return options.nullable && op === 'lt' ? { OR: [past, { [column]: null }] } : past;
+    },
+    parse: options.parse,
+    permission: options.permission,
+  };
+}
+
+// MySQL sorts ENUM columns by declaration order, which Prisma's enum filters cannot compare directly
+const roleOrder: Role[] = [Role.ADMIN, Role.MANAGER, Role.EMPLOYEE];
+
+const employeeSortFields: Record<string, SortField> = {
+  ID: scalarField('id'),
+  NAME: scalarField('name'),
+  EMAIL: scalarField('email', { nullable: true }),
+  CLASS: scalarField('class'),
+  POSITION: scalarField('position', { nullable: true }),
+  STATUS: scalarField('status'),
+  ATTENDANCE: scalarField('attendance', { nullable: true }),
+  AGE: scalarField('age', { nullable: true, permission: 'personal:read' }),
+  SALARY: scalarField('salary', { nullable: true, permission: 'salary:read' }),
+  START_DATE: scalarField('startDate', {
+    nullable: true,
+    parse: (value) => {
+      if (value === null) return null;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) throw new UserInputError('Invalid cursor');
+      return date;
+    },
+  }),
+  ROLE: {
+    orderBy: (dir) => ({ role: dir }),
+    value: (employee) => employee.role,
+    equals: (value) => ({ role: value }),
+    compare: (op, value) => {
+      const index = roleOrder.indexOf(value);
+      if (index < 0) throw new UserInputError('Invalid cursor');
+      return { role: { in: op === 'gt' ? roleOrder.slice(index + 1) : roleOrder.slice(0, index) } };
+    },
+  },
+  DEPARTMENT: {
+    orderBy: (dir) => ({ department: { name: dir } }),
+    value: (employee) => employee.department?.name ?? null,
+    equals: (value) => (value === null ? { departmentId: null } : { department: { is: { name: value } } }),
+    compare: (op, value) => {
+      if (value === null) return op === 'gt' ? { departmentId: { not: null } } : null;
+      const past = { department: { is: { name: { [op]: value } } } };
+      return op === 'lt' ? { OR: [past, { departmentId: null }] } : past;
+    },
+  },
+};
+
+// Validates the requested sort and appends `id` so every ordering is total, which keeps
+// paging deterministic when several rows share the sorted values
+function normalizeOrder(user: Viewer, orderBy: EmployeeOrderByInput[] | null | undefined): EmployeeOrderByInput[] {
+  const order: EmployeeOrderByInput[] = [];
+  for (const { field, direction } of orderBy || []) {
+    const sortField = employeeSortFields[field];
+    if (!sortField) throw new UserInputError(`Cannot sort employees by ${field}`);
+    if (sortField.permission && !hasPermission(user, sortField.permission)) {
+      throw new ForbiddenError(`Not authorized to sort by ${field}`);
+    }
+    if (order.some((o) => o.field === field)) continue;
+    order.push({ field, direction: direction || 'ASC' });
+    // Nothing after a unique column can change the order
+    if (field === 'ID') return order;
+  }
+  order.push({ field: 'ID', direction: 'ASC' });
+  return order;
+}
+
+// The deprecated `sortBy`/`sortOrder` strings, mapped onto sort fields so only known columns get through
+const legacySortColumns: Record<string, string> = {
+  id: 'ID',
+  name: 'NAME',
+  email: 'EMAIL',
+  class: 'CLASS',
+  position: 'POSITION',
+  status: 'STATUS',
+  attendance: 'ATTENDANCE',
+  age: 'AGE',
+  salary: 'SALARY',
+  startDate: 'START_DATE',
+  role: 'ROLE',
+  department: 'DEPARTMENT',
+};
+
+function legacyOrderBy(sortBy: string, sortOrder: string): EmployeeOrderByInput[] {
+  const field = Object.prototype.hasOwnProperty.call(legacySortColumns, sortBy) ? legacySortColumns[sortBy] : undefined;
+  if (!field) throw new UserInputError(`Cannot sort employees by ${sortBy}`);
+  const direction = sortOrder.toUpperCase();
+  if (direction !== 'ASC' && direction !== 'DESC') throw new UserInputError('sortOrder must be asc or desc');
+  return [{ field, direction }];
+}
+
+function prismaDirection(direction: SortDirection | null | undefined, reverse: boolean = false): Prisma.SortOrder {
+  return (direction === 'DESC') !== reverse ? 'desc' : 'asc';
+}
+
+function buildEmployeeOrderBy(order: EmployeeOrderByInput[], reverse: boolean = false): Prisma.EmployeeOrderByWithRelationInput[] {
+  return order.map(({ field, direction }) => employeeSortFields[field].orderBy(prismaDirection(direction, reverse)));
+}
+
+function orderSignature(order: EmployeeOrderByInput[]): string {
+  return order.map(({ field, direction }) => `${field}:${direction}`).join(',');
+}
+
+// Cursors are opaque to clients but carry the sort they were issued for, so a cursor
+// replayed against a different orderBy is rejected instead of silently skipping rows
+function encodeCursor(order: EmployeeOrderByInput[], employee: any): string {
+  const values = order.map(({ field }) => employeeSortFields[field].value(employee));
+  return Buffer.from(JSON.stringify({ s: orderSignature(order), v: values })).toString('base64url');
+}
+
+function decodeCursor(order: EmployeeOrderByInput[], cursor: string): unknown[] {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (e) {
+    throw new UserInputError('Invalid cursor');
+  }
+  if (!decoded || decoded.s !== orderSignature(order) || !Array.isArray(decoded.v) || decoded.v.length !== order.length) {
+    throw new UserInputError('Invalid cursor');
+  }
+  return order.map(({ field }, i) => {
+    const { parse } = employeeSortFields[field];
+    return parse ? parse(decoded.v[i]) : decoded.v[i];
+  });
+}
+
+// Rows strictly after (or before) the cursor position in the given order:
+// (a > x) OR (a = x AND b > y) OR (a = x AND b = y AND id > z) ...
+function cursorWhere(order: EmployeeOrderByInput[], values: unknown[], before: boolean = false): Prisma.EmployeeWhereInput {
+  const branches: Prisma.EmployeeWhereInput[] = [];
+  order.forEach(({ field, direction }, i) => {
+    const op: Comparison = (direction === 'DESC') !== before ? 'lt' : 'gt';
+    const past = employeeSortFields[field].compare(op, values[i]);
+    if (!past) return;
+    const ties = order.slice(0, i).map((prev, j) => employeeSortFields[prev.field].equals(values[j]));
+    branches.push({ AND: [...ties, past] });
+  });
+  return { OR: branches };
+}
+
+export {
+  SortDirection,
+  EmployeeOrderByInput,
+  employeeSortFields,
+  normalizeOrder,
+  legacyOrderBy,
+  buildEmployeeOrderBy,
+  encodeCursor,
+  decodeCursor,
+  cursorWhere,
+};
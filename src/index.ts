@@ -1,8 +1,14 @@
 import express from 'express';
+import { createServer } from 'http';
 import { ApolloServer } from 'apollo-server-express';
+import { ApolloServerPluginDrainHttpServer } from 'apollo-server-core';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { GraphQLError, parse } from 'graphql';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/lib/use/ws';
 import { typeDefs } from './schema';
 import { resolvers } from './resolvers';
-import jwt from 'jsonwebtoken';
+import { authDirectiveTransformer } from './authDirective';
 import cors from 'cors';
 import compression from 'compression';
 import helmet from 'helmet';
@@ -13,8 +19,22 @@ import {
   getOptimizationRecommendations 
 } from './performance/monitoring';
 import { prisma } from './performance/databaseOptimizer';
+import { sessionService } from './sessions';
+import { exportEmployees } from './employeeExport';
+import { compensationService } from './compensation';
+import { createLoaders } from './loaders';
+import { complexityPlugin, subscriptionComplexityErrors } from './performance/complexityPlugin';
+import { monitoringPlugin } from './performance/monitoringPlugin';
+import { rateLimiter, rateLimitPlugin } from './rateLimit';
+import { connect, disconnect, reauthenticate, SubscriptionExtra } from './subscriptionAuth';
 const app = express();
 
+// Set when running behind a proxy (e.g. TRUST_PROXY=1 for one hop) so rate limits see client IPs
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 // Security and performance middleware
 app.use(helmet());
 app.use(compression());
@@ -33,35 +53,92 @@ app.get('/health', healthCheck);
 app.get('/metrics', performanceMetrics);
 app.get('/recommendations', getOptimizationRecommendations);
 
-// JWT middleware
-app.use((req, res, next) => {
-  const auth = req.headers['authorization'];
-  if (auth && auth.startsWith('Bearer ')) {
-    try {
-      const token = auth.split(' ')[1];
-      const user = jwt.verify(token, process.env.JWT_SECRET || 'secret');
-      (req as any).user = user;
-    } catch (e) {
-      // Invalid token, ignore
-    }
+// JWT middleware: tokens for revoked sessions or inactive employees are ignored
+app.use(async (req, res, next) => {
+  try {
+    const user = await sessionService.authenticate(prisma, req.headers['authorization']);
+    if (user) (req as any).user = user;
+  } catch (e) {
+    console.error('Error authenticating request:', e);
   }
   next();
 });
 
+// General per-IP and per-employee limits; login, register and password emails have their own
+app.use(rateLimiter.middleware);
+
+app.post('/export/employees', express.json(), exportEmployees);
+
 async function startServer() {
+  const schema = authDirectiveTransformer(makeExecutableSchema({ typeDefs, resolvers }));
+  const httpServer = createServer(app);
+
+  // Subscriptions: the connection is authenticated with the same access token as HTTP requests and
+  // re-checked on every subscribe and, at most SUBSCRIPTION_REAUTH_SECONDS apart, before events
+  const wsServer = new WebSocketServer({ server: httpServer, path: '/graphql' });
+  const wsServerCleanup = useServer<Record<string, unknown> | undefined, SubscriptionExtra>({
+    schema,
+    onConnect: (ctx) => connect(prisma, ctx),
+    onClose: (ctx) => disconnect(ctx),
+    onSubscribe: async (ctx, message) => {
+      if (!(await reauthenticate(prisma, ctx, true))) return [new GraphQLError('Not authenticated')];
+      let document;
+      try {
+        document = parse(message.payload.query);
+      } catch {
+        // graphql-ws reports the syntax error itself
+        return;
+      }
+      return subscriptionComplexityErrors(schema, document, message.payload.operationName, message.payload.variables);
+    },
+    context: (ctx) => ({
+      req: ctx.extra.request,
+      prisma,
+      // Read through so re-authentication updates role and department for running subscriptions
+      get user() {
+        return ctx.extra.user;
+      },
+      reauthenticate: () => reauthenticate(prisma, ctx),
+      loaders: createLoaders(prisma, { cache: false }),
+    }),
+  }, wsServer);
+
   const server = new ApolloServer({
-    typeDefs,
-    resolvers,
-    context: ({ req }) => ({ req, prisma, user: (req as any).user }),
-    persistedQueries: false
+    schema,
+    context: ({ req }) => ({
+      req,
+      prisma,
+      user: (req as any).user,
+      requestId: (req as any).requestId,
+      loaders: createLoaders(prisma),
+    }),
+    persistedQueries: false,
+    plugins: [
+      ApolloServerPluginDrainHttpServer({ httpServer }),
+      complexityPlugin,
+      monitoringPlugin,
+      rateLimitPlugin,
+      {
+        async serverWillStart() {
+          return {
+            async drainServer() {
+              await wsServerCleanup.dispose();
+            },
+          };
+        },
+      },
+    ],
   });
   await server.start();
   server.applyMiddleware({ app: app as any });
 
   const PORT = process.env.PORT || 4000;
-  app.listen(PORT, () => {
+  httpServer.listen(PORT, () => {
     console.log(`🚀 Server ready at http://localhost:${PORT}${server.graphqlPath}`);
   });
+
+  // Future-dated raises and promotions take effect on their own
+  compensationService.startScheduler(prisma);
 }
 
 startServer(); 
\ No newline at end of file
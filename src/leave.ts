@@ -0,0 +1,147 @@
+import { LeaveRequest, LeaveStatus, LeaveType, PrismaClient } from '@prisma/client';
+import { UserInputError } from 'apollo-server-express';
+import { attendanceService, toDay } from './attendance';
+
+// Days per calendar year when no LeaveAllowance row overrides them; unpaid leave is unlimited
+const DEFAULT_ALLOWANCES: Record<LeaveType, number | null> = {
+  ANNUAL: parseInt(process.env.LEAVE_ALLOWANCE_ANNUAL || '20'),
+  SICK: parseInt(process.env.LEAVE_ALLOWANCE_SICK || '10'),
+  OTHER: parseInt(process.env.LEAVE_ALLOWANCE_OTHER || '5'),
+  UNPAID: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pending and approved leave both hold days and block overlapping requests
+const ACTIVE_STATUSES: LeaveStatus[] = [LeaveStatus.PENDING, LeaveStatus.APPROVED];
+
+interface LeaveBalance {
+  type: LeaveType;
+  year: number;
+  // null when the type has no limit
+  allowance: number | null;
+  used: number;
+  pending: number;
+  remaining: number | null;
+}
+
+// Monday to Friday between two stored days, inclusive
+function workingDays(start: Date, end: Date): Date[] {
+  const days: Date[] = [];
+  for (let time = start.getTime(); time <= end.getTime(); time += DAY_MS) {
+    const day = new Date(time);
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) days.push(day);
+  }
+  return days;
+}
+
+class LeaveService {
+  async balances(prisma: PrismaClient, employeeId: number, year: number): Promise<LeaveBalance[]> {
+    const [overrides, requests] = await Promise.all([
+      prisma.leaveAllowance.findMany({ where: { employeeId, year } }),
+      prisma.leaveRequest.groupBy({
+        by: ['type', 'status'],
+        where: {
+          employeeId,
+          status: { in: ACTIVE_STATUSES },
+          startDate: { gte: new Date(Date.UTC(year, 0, 1)), lt: new Date(Date.UTC(year + 1, 0, 1)) },
+        },
+        _sum: { days: true },
+      }),
+    ]);
+
+    return Object.values(LeaveType).map((type) => {
+      const override = overrides.find((o) => o.type === type);
+      const allowance = override ? override.days : DEFAULT_ALLOWANCES[type];
+      const sum = (status: LeaveStatus) =>
+        requests.find((r) => r.type === type && r.status === status)?._sum.days ?? 0;
+      const used = sum(LeaveStatus.APPROVED);
+      const pending = sum(LeaveStatus.PENDING);
+      return { type, year, allowance, used, pending, remaining: allowance === null ? null : allowance - used - pending };
+    });
+  }
+
+  async request(
+    prisma: PrismaClient,
+    employeeId: number,
+    input: { type: LeaveType; startDate: Date; endDate: Date; reason?: string | null }
+  ): Promise<LeaveRequest> {
+    const { type, startDate, endDate } = input;
+    if (startDate > endDate) throw new UserInputError('startDate must not be after endDate');
+    if (startDate < toDay(new Date()) && type !== LeaveType.SICK) {
+      throw new UserInputError('Only sick leave can be requested for past days');
+    }
+    // Balances are per calendar year, so a request must not straddle two
+    if (startDate.getUTCFullYear() !== endDate.getUTCFullYear()) {
+      throw new UserInputError('Leave spanning two calendar years must be requested separately');
+    }
+    const days = workingDays(startDate, endDate).length;
+    if (days === 0) throw new UserInputError('The requested range contains no working days');
+
+    const overlapping = await prisma.leaveRequest.findFirst({
+      where: { employeeId, status: { in: ACTIVE_STATUSES }, startDate: { lte: endDate }, endDate: { gte: startDate } },
+    });
+    if (overlapping) throw new UserInputError('Overlaps an existing leave request');
+
+    const balance = (await this.balances(prisma, employeeId, startDate.getUTCFullYear())).find((b) => b.type === type)!;
+    if (balance.remaining !== null && balance.remaining < days) {
+      throw new UserInputError(`Not enough ${type.toLowerCase()} leave: ${balance.remaining} days remaining, ${days} requested`);
+    }
+
+    return prisma.leaveRequest.create({
+      data: { employeeId, type, startDate, endDate, days, reason: input.reason ?? null },
+    });
+  }
+
+  // Moves a pending request to APPROVED or REJECTED. Approved days are written to attendance.
+  async decide(
+    prisma: PrismaClient,
+    request: LeaveRequest,
+    decision: { status: 'APPROVED' | 'REJECTED'; approverId: number; note?: string | null }
+  ): Promise<LeaveRequest> {
+    // Conditional update so two approvers acting at once cannot both decide it
+    const { count } = await prisma.leaveRequest.updateMany({
+      where: { id: request.id, status: LeaveStatus.PENDING },
+      data: { status: decision.status, approverId: decision.approverId, decisionNote: decision.note ?? null, decidedAt: new Date() },
+    });
+    if (count !== 1) throw new UserInputError('Only pending leave requests can be approved or rejected');
+
+    if (decision.status === LeaveStatus.APPROVED) {
+      await attendanceService.recordLeave(prisma, request.employeeId, workingDays(request.startDate, request.endDate));
+    }
+    return prisma.leaveRequest.findUniqueOrThrow({ where: { id: request.id } });
+  }
+
+  async cancel(prisma: PrismaClient, request: LeaveRequest, actorId: number): Promise<LeaveRequest> {
+    if (request.status === LeaveStatus.APPROVED && request.startDate <= toDay(new Date())) {
+      throw new UserInputError('Leave that has already started cannot be cancelled');
+    }
+    const { count } = await prisma.leaveRequest.updateMany({
+      where: { id: request.id, status: { in: ACTIVE_STATUSES } },
+      data: { status: LeaveStatus.CANCELLED, approverId: actorId, decidedAt: new Date() },
+    });
+    if (count !== 1) throw new UserInputError('Only pending or approved leave can be cancelled');
+
+    if (request.status === LeaveStatus.APPROVED) {
+      await attendanceService.clearLeave(prisma, request.employeeId, request.startDate, request.endDate);
+    }
+    return prisma.leaveRequest.findUniqueOrThrow({ where: { id: request.id } });
+  }
+
+  async setAllowance(prisma: PrismaClient, employeeId: number, year: number, type: LeaveType, days: number) {
+    if (!Number.isInteger(days) || days < 0) throw new UserInputError('days must be a non-negative whole number');
+    await prisma.leaveAllowance.upsert({
+      where: { employeeId_year_type: { employeeId, year, type } },
+      create: { employeeId, year, type, days },
+      update: { days },
+    });
+    return (await this.balances(prisma, employeeId, year)).find((b) => b.type === type)!;
+  }
+}
+
+export const leaveService = new LeaveService();
+
+export {
+  LeaveBalance,
+  workingDays,
+};
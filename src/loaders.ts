@@ -0,0 +1,27 @@
+import DataLoader from 'dataloader';
+import { PrismaClient } from '@prisma/client';
+import { EmployeeDataLoader } from './performance/graphqlOptimizer';
+import { attendanceService } from './attendance';
+
+interface Loaders {
+  employees: EmployeeDataLoader;
+  // Live attendance rate by employee id; undefined when the window has no records
+  attendanceRates: DataLoader<number, number | undefined>;
+}
+
+// Built by the context factory for every request, so batching and memoization never cross
+// requests. Subscriptions pass cache: false because their context is reused for every event.
+function createLoaders(prisma: PrismaClient, options: { cache?: boolean } = {}): Loaders {
+  return {
+    employees: new EmployeeDataLoader(prisma, options),
+    attendanceRates: new DataLoader(async (ids: readonly number[]) => {
+      const rates = await attendanceService.rates(prisma, [...ids]);
+      return ids.map((id) => rates.get(id));
+    }, { cache: options.cache }),
+  };
+}
+
+export {
+  Loaders,
+  createLoaders,
+};
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+
+interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+}
+
+const passwordPolicy: PasswordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8'),
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+};
+
+// Returns a list of human-readable policy violations (empty when the password is acceptable)
+function validatePassword(password: string): string[] {
+  const errors: string[] = [];
+
+  if (!password || password.length < passwordPolicy.minLength) {
+    errors.push(`Password must be at least ${passwordPolicy.minLength} characters long`);
+  }
+  if (passwordPolicy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain an uppercase letter');
+  }
+  if (passwordPolicy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain a lowercase letter');
+  }
+  if (passwordPolicy.requireDigit && !/[0-9]/.test(password)) {
+    errors.push('Password must contain a digit');
+  }
+  if (passwordPolicy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push('Password must contain a symbol');
+  }
+
+  return errors;
+}
+
+// Temporary passwords are generated with a CSPRNG and always satisfy the policy
+function generateTemporaryPassword(): string {
+  const upper = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+  const lower = 'abcdefghijkmnopqrstuvwxyz';
+  const digits = '23456789';
+  const symbols = '!@#$%&*?';
+  const all = upper + lower + digits + symbols;
+  const pick = (chars: string) => chars[crypto.randomInt(chars.length)];
+
+  const chars = [pick(upper), pick(lower), pick(digits), pick(symbols)];
+  const length = Math.max(passwordPolicy.minLength, 12);
+  while (chars.length < length) {
+    chars.push(pick(all));
+  }
+
+  // Fisher-Yates shuffle so the required classes are not always at the start
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+
+  return chars.join('');
+}
+
+export {
+  passwordPolicy,
+  validatePassword,
+  generateTemporaryPassword,
+};
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '60');
+const SETUP_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_SETUP_TOKEN_TTL_MINUTES || String(72 * 60));
+
+interface IssuedResetToken {
+  token: string;
+  link: string;
+  expiresAt: Date;
+}
+
+// Only the SHA-256 of a token is stored; tokens carry 256 bits of entropy so a slow hash is unnecessary
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+class PasswordResetService {
+  // Issues a single-use token for the employee, replacing any outstanding ones
+  async issueToken(
+    prisma: PrismaClient,
+    employeeId: number,
+    ttlMinutes: number = RESET_TOKEN_TTL_MINUTES
+  ): Promise<IssuedResetToken> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    await prisma.$transaction([
+      prisma.passwordResetToken.deleteMany({ where: { employeeId, usedAt: null } }),
+      prisma.passwordResetToken.create({
+        data: { employeeId, tokenHash: hashToken(token), expiresAt },
+      }),
+    ]);
+
+    return { token, link: this.buildLink(token), expiresAt };
+  }
+
+  issueSetupToken(prisma: PrismaClient, employeeId: number): Promise<IssuedResetToken> {
+    return this.issueToken(prisma, employeeId, SETUP_TOKEN_TTL_MINUTES);
+  }
+
+  // Marks the token as used and returns the owning employee id, or null if it is unknown, used or expired
+  async consumeToken(prisma: PrismaClient, token: string): Promise<number | null> {
+    const record = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+    if (!record || record.usedAt || record.expiresAt.getTime() < Date.now()) {
+      return null;
+    }
+
+    // Conditional update so two concurrent resets cannot both use the same token
+    const { count } = await prisma.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count === 1 ? record.employeeId : null;
+  }
+
+  buildLink(token: string): string {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5731';
+    return `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  }
+}
+
+export const passwordResetService = new PasswordResetService();
+
+export {
+  hashToken,
+};
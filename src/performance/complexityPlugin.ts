@@ -0,0 +1,87 @@
+import { ApolloError } from 'apollo-server-express';
+import { PluginDefinition } from 'apollo-server-core';
+import { DocumentNode, GraphQLError, GraphQLSchema } from 'graphql';
+import { QueryComplexityAnalyzer, QueryCost } from './graphqlOptimizer';
+
+class QueryTooComplexError extends ApolloError {
+  constructor(message: string, cost: QueryCost) {
+    super(message, 'QUERY_TOO_COMPLEX', {
+      complexity: cost.complexity,
+      maxComplexity: QueryComplexityAnalyzer.maxComplexity,
+      depth: cost.depth,
+      maxDepth: QueryComplexityAnalyzer.maxDepth,
+    });
+    Object.defineProperty(this, 'name', { value: 'QueryTooComplexError' });
+  }
+}
+
+// Throws when an operation goes over either limit
+function assertWithinLimits(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName?: string | null,
+  variables?: Record<string, unknown> | null
+): QueryCost {
+  const cost = QueryComplexityAnalyzer.analyze(schema, document, operationName, variables);
+  if (cost.depth > QueryComplexityAnalyzer.maxDepth) {
+    throw new QueryTooComplexError(
+      `Query depth (${cost.depth}) exceeds maximum allowed (${QueryComplexityAnalyzer.maxDepth})`,
+      cost
+    );
+  }
+  if (cost.complexity > QueryComplexityAnalyzer.maxComplexity) {
+    throw new QueryTooComplexError(
+      `Query complexity (${cost.complexity}) exceeds maximum allowed (${QueryComplexityAnalyzer.maxComplexity})`,
+      cost
+    );
+  }
+  return cost;
+}
+
+// Prices every operation once it has passed validation and before any resolver runs. Accepted
+// operations report their cost under `extensions.cost` in the response.
+const complexityPlugin: PluginDefinition = {
+  async requestDidStart() {
+    let cost: QueryCost | undefined;
+    return {
+      async didResolveOperation({ schema, document, operationName, request }) {
+        cost = assertWithinLimits(schema, document, operationName, request.variables);
+      },
+      async willSendResponse({ response }) {
+        if (!cost) return;
+        response.extensions = {
+          ...response.extensions,
+          cost: {
+            complexity: cost.complexity,
+            maxComplexity: QueryComplexityAnalyzer.maxComplexity,
+            depth: cost.depth,
+            maxDepth: QueryComplexityAnalyzer.maxDepth,
+          },
+        };
+      },
+    };
+  },
+};
+
+// Subscriptions bypass Apollo's request pipeline, so the WebSocket server checks them itself.
+// Returns errors to reject the subscription with, or undefined to let it through.
+function subscriptionComplexityErrors(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  operationName?: string | null,
+  variables?: Record<string, unknown> | null
+): GraphQLError[] | undefined {
+  try {
+    assertWithinLimits(schema, document, operationName, variables);
+    return undefined;
+  } catch (error) {
+    if (!(error instanceof QueryTooComplexError)) throw error;
+    return [new GraphQLError(error.message, { extensions: error.extensions })];
+  }
+}
+
+export {
+  QueryTooComplexError,
+  complexityPlugin,
+  subscriptionComplexityErrors,
+};
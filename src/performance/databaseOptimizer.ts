@@ -1,5 +1,7 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { performance } from 'perf_hooks';
+import { EmployeeDataLoader, GraphQLCache } from './graphqlOptimizer';
+import { Histogram, LabeledSeries } from './histogram';
 
 // Connection pooling configuration
 const prisma = new PrismaClient({
@@ -16,6 +18,8 @@ const prisma = new PrismaClient({
 class QueryPerformanceMonitor {
   private static instance: QueryPerformanceMonitor;
   private queryTimes: Map<string, number[]> = new Map();
+  // Query names are fixed in code, so the series cap is only a safeguard
+  private durations = new LabeledSeries(() => new Histogram(), 50, { query: 'other' });
   private slowQueryThreshold = 1000; // 1 second
 
   static getInstance(): QueryPerformanceMonitor {
@@ -42,6 +46,12 @@ class QueryPerformanceMonitor {
       this.queryTimes.set(queryName, []);
     }
     this.queryTimes.get(queryName)!.push(duration);
+    this.durations.get({ query: queryName }).observe(duration / 1000);
+  }
+
+  // Cumulative durations in seconds, for the Prometheus view of /metrics
+  getQueryHistograms() {
+    return this.durations.entries();
   }
 
   getQueryStats(): Record<string, { avg: number; count: number; max: number }> {
@@ -57,169 +67,103 @@ class QueryPerformanceMonitor {
   }
 }
 
-// Optimized query builder with caching
+// Who a cached result was computed for. Results depend on the caller's scope, so they are
+// never shared between callers.
+interface CacheViewer {
+  id: number;
+  role: string;
+  departmentId?: number | null;
+}
+
+interface CachedEmployeeQuery {
+  viewer: CacheViewer;
+  // Every argument that shapes the result; it becomes part of the cache key
+  args: Record<string, unknown>;
+  // Whether the given employee, as it was before or after a change, could be part of the result
+  affectedBy: (employee: any) => boolean;
+}
+
+// Optimized query builder with caching. Entries live in GraphQLCache, so they share its hit rate,
+// and are dropped by invalidateEmployee() when a change could alter them.
 class OptimizedQueryBuilder {
-  private static cache = new Map<string, { data: any; timestamp: number }>();
   private static cacheTTL = 5 * 60 * 1000; // 5 minutes
 
+  private static viewerKey(viewer: CacheViewer): string {
+    return `${viewer.role}:${viewer.id}:${viewer.departmentId ?? '-'}`;
+  }
+
+  // Rows are returned as Prisma loaded them; callers format them for the API
   static async getEmployeesWithOptimization(
     prisma: PrismaClient,
-    options: {
-      page?: number;
-      pageSize?: number;
-      sortBy?: string;
-      sortOrder?: 'asc' | 'desc';
-      filter?: string;
+    query: CachedEmployeeQuery & {
+      where: Prisma.EmployeeWhereInput;
+      orderBy: Prisma.EmployeeOrderByWithRelationInput[];
+      include: Prisma.EmployeeInclude;
+      skip?: number;
+      take: number;
       includeCount?: boolean;
     }
-  ) {
-    const cacheKey = JSON.stringify(options);
-    const cached = this.cache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
-      return cached.data;
-    }
+  ): Promise<{ employees: any[]; totalCount: number }> {
+    const cacheKey = `employees:${this.viewerKey(query.viewer)}:${JSON.stringify(query.args)}`;
+    const cached = GraphQLCache.get(cacheKey);
+    if (cached) return cached;
 
     const monitor = QueryPerformanceMonitor.getInstance();
     const endQuery = monitor.startQuery('getEmployees');
 
     try {
-      const { page = 1, pageSize = 10, sortBy = 'id', sortOrder = 'asc', filter = '', includeCount = true } = options;
-      const skip = (page - 1) * pageSize;
-      
-      // Optimized where clause with proper indexing considerations
-      const where = filter ? {
-        OR: [
-          { name: { contains: filter, mode: 'insensitive' } },
-          { department: { contains: filter, mode: 'insensitive' } },
-          { position: { contains: filter, mode: 'insensitive' } },
-        ],
-      } : {};
-
+      const { where, orderBy, include, skip, take, includeCount = true } = query;
       // Execute queries in parallel
       const [employees, totalCount] = await Promise.all([
-        prisma.employee.findMany({
-          where,
-          skip,
-          take: pageSize,
-          orderBy: { [sortBy]: sortOrder },
-          // Select only needed fields
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            age: true,
-            department: true,
-            position: true,
-            salary: true,
-            class: true,
-            subjects: true,
-            attendance: true,
-            avatar: true,
-            phone: true,
-            address: true,
-            startDate: true,
-            status: true,
-            role: true,
-          },
-        }),
+        prisma.employee.findMany({ where, orderBy, include, skip, take }),
         includeCount ? prisma.employee.count({ where }) : Promise.resolve(0),
       ]);
 
-      const result = {
-        employees: employees.map((e: any) => ({
-          ...e,
-          subjects: this.parseSubjects(e.subjects),
-          startDate: e.startDate ? Math.floor(e.startDate.getTime() / 1000) : null,
-        })),
-        totalCount,
-      };
-
-      // Cache the result
-      this.cache.set(cacheKey, { data: result, timestamp: Date.now() });
-      
+      const result = { employees, totalCount };
+      GraphQLCache.set(cacheKey, result, this.cacheTTL, (change) => query.affectedBy(change));
       return result;
     } finally {
       endQuery();
     }
   }
 
-  static async getEmployeeWithOptimization(prisma: PrismaClient, id: number) {
-    const cacheKey = `employee_${id}`;
-    const cached = this.cache.get(cacheKey);
-    
-    if (cached && Date.now() - cached.timestamp < this.cacheTTL) {
-      return cached.data;
-    }
+  // Misses go through the request's loader, so lookups made while resolving one operation share a query
+  static async getEmployeeWithOptimization(
+    loader: EmployeeDataLoader,
+    viewer: CacheViewer,
+    id: number
+  ): Promise<any | null> {
+    const cacheKey = `employee:${id}:${this.viewerKey(viewer)}`;
+    const cached = GraphQLCache.get(cacheKey);
+    if (cached) return cached;
 
     const monitor = QueryPerformanceMonitor.getInstance();
     const endQuery = monitor.startQuery('getEmployee');
 
     try {
-      const employee = await prisma.employee.findUnique({
-        where: { id },
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          age: true,
-          department: true,
-          position: true,
-          salary: true,
-          class: true,
-          subjects: true,
-          attendance: true,
-          avatar: true,
-          phone: true,
-          address: true,
-          startDate: true,
-          status: true,
-          role: true,
-        },
-      });
-
-      if (!employee) return null;
-
-      const result = {
-        ...employee,
-        subjects: this.parseSubjects(employee.subjects),
-        startDate: employee.startDate ? Math.floor(employee.startDate.getTime() / 1000) : null,
-      };
-
-      this.cache.set(cacheKey, { data: result, timestamp: Date.now() });
-      return result;
+      const employee = await loader.load(id);
+      // Misses are not cached, so an id that does not exist yet is looked up again next time
+      if (employee) GraphQLCache.set(cacheKey, employee, this.cacheTTL, (change) => change.id === id);
+      return employee;
     } finally {
       endQuery();
     }
   }
 
-  private static parseSubjects(subjects: string): string[] {
-    try {
-      return JSON.parse(subjects);
-    } catch {
-      return [];
-    }
+  // Call after any write to an employee with its state before and/or after the write. Entries
+  // that could include either version are dropped; everything else stays cached.
+  static invalidateEmployee(...snapshots: any[]): void {
+    GraphQLCache.invalidate(...snapshots);
   }
 
-  // Clear cache for specific patterns
+  // Clear cache for specific patterns, e.g. 'employee' after a department or subject is renamed
   static clearCache(pattern?: string): void {
-    if (pattern) {
-      for (const key of this.cache.keys()) {
-        if (key.includes(pattern)) {
-          this.cache.delete(key);
-        }
-      }
-    } else {
-      this.cache.clear();
-    }
+    GraphQLCache.clear(pattern);
   }
 
   // Get cache statistics
-  static getCacheStats(): { size: number; keys: string[] } {
-    return {
-      size: this.cache.size,
-      keys: Array.from(this.cache.keys()),
-    };
+  static getCacheStats(): { size: number; hits: number; misses: number; hitRate: number } {
+    return GraphQLCache.getStats();
   }
 }
 
@@ -246,13 +190,17 @@ class DatabaseHealthCheck {
 
   static async getDatabaseStats(): Promise<any> {
     try {
+      // Archived employees are excluded from all statistics
+      const where = { deletedAt: null };
       const [employeeCount, avgSalary, departmentStats] = await Promise.all([
-        prisma.employee.count(),
+        prisma.employee.count({ where }),
         prisma.employee.aggregate({
+          where,
           _avg: { salary: true },
         }),
         prisma.employee.groupBy({
-          by: ['department'],
+          by: ['departmentId'],
+          where,
           _count: { id: true },
         }),
       ]);
@@ -273,6 +221,7 @@ class DatabaseHealthCheck {
 
 export {
   prisma,
+  CacheViewer,
   QueryPerformanceMonitor,
   OptimizedQueryBuilder,
   DatabaseHealthCheck,
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildASTSchema, graphql, parse } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema';
+import { EmployeeDataLoader, GraphQLPerformanceMonitor, QueryComplexityAnalyzer } from './graphqlOptimizer';
+import { typeDefs } from '../schema';
+
+const rows = [
+  { id: 1, name: 'Ada', email: 'ada@example.com' },
+  { id: 2, name: 'Grace', email: 'grace@example.com' },
+  { id: 3, name: 'Linus', email: 'linus@example.com' },
+];
+
+// Stands in for PrismaClient, recording every findMany it receives
+function fakePrisma() {
+  const queries: any[] = [];
+  const prisma: any = {
+    employee: {
+      findMany: async (args: any) => {
+        queries.push(args.where);
+        const { id, email } = args.where;
+        return rows.filter((row) =>
+          id ? id.in.includes(row.id) : email.in.some((e: string) => e.toLowerCase() === row.email)
+        );
+      },
+    },
+  };
+  return { prisma, queries };
+}
+
+// A relation field resolved once per list item, like LeaveRequest.employee
+const schema = makeExecutableSchema({
+  typeDefs: `
+    type Employee { id: ID! name: String! }
+    type LeaveRequest { id: ID! employee: Employee }
+    type Query { leaveRequests: [LeaveRequest!]! }
+  `,
+  resolvers: {
+    Query: {
+      leaveRequests: () => [1, 2, 3, 2, 1, 9].map((employeeId, i) => ({ id: i + 1, employeeId })),
+    },
+    LeaveRequest: {
+      employee: (request: any, _args: any, context: any) => context.loaders.employees.load(request.employeeId),
+    },
+  },
+});
+
+test('relation fields across a list are loaded in one query', async () => {
+  const { prisma, queries } = fakePrisma();
+  const result = await graphql({
+    schema,
+    source: '{ leaveRequests { id employee { name } } }',
+    contextValue: { loaders: { employees: new EmployeeDataLoader(prisma) } },
+  });
+
+  assert.equal(result.errors, undefined);
+  assert.deepEqual(
+    (result.data as any).leaveRequests.map((r: any) => r.employee?.name ?? null),
+    ['Ada', 'Grace', 'Linus', 'Grace', 'Ada', null]
+  );
+  // Six resolver calls, one query, each id requested once
+  assert.equal(queries.length, 1);
+  assert.deepEqual(queries[0].id.in, [1, 2, 3, 9]);
+});
+
+test('each request gets its own memoized results', async () => {
+  const { prisma, queries } = fakePrisma();
+  const first = new EmployeeDataLoader(prisma);
+  await first.load(1);
+  await first.load(1);
+  assert.equal(queries.length, 1);
+
+  first.clear(1);
+  await first.load(1);
+  await new EmployeeDataLoader(prisma).load(1);
+  assert.equal(queries.length, 3);
+});
+
+test('email lookups ignore case', async () => {
+  const { prisma, queries } = fakePrisma();
+  const loader = new EmployeeDataLoader(prisma);
+  const [upper, lower] = await Promise.all([loader.loadByEmail('Ada@Example.com'), loader.loadByEmail('ada@example.com')]);
+  assert.equal(upper?.id, 1);
+  assert.equal(lower, upper);
+  assert.equal(queries.length, 1);
+});
+
+test('a huge page is expensive even when only scalars are selected', () => {
+  const schema = buildASTSchema(typeDefs);
+  const cost = (query: string) => QueryComplexityAnalyzer.analyze(schema, parse(query)).complexity;
+  assert.ok(cost('{ employees(pageSize: 1000000) { totalCount } }') > QueryComplexityAnalyzer.maxComplexity);
+  assert.ok(cost('{ employeesBySubject(subjectId: 1, pageSize: 1000000) { totalCount } }') > QueryComplexityAnalyzer.maxComplexity);
+  assert.ok(cost('{ employees(pageSize: 20) { totalCount employees { id name } } }') <= QueryComplexityAnalyzer.maxComplexity);
+});
+
+test('operation stats stay bounded however many names clients send', () => {
+  for (let i = 0; i < 1000; i++) GraphQLPerformanceMonitor.startOperation(`random${i}`, 'query')();
+  const stats = GraphQLPerformanceMonitor.getOperationStats();
+  assert.ok(Object.keys(stats).length <= 201);
+  assert.ok(stats['other other'].count > 0);
+});
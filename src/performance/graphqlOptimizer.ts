@@ -1,77 +1,60 @@
 import DataLoader from 'dataloader';
 import { PrismaClient } from '@prisma/client';
-import { GraphQLResolveInfo } from 'graphql';
-
-// DataLoader for preventing N+1 queries
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  getArgumentValues,
+  getNamedType,
+  getOperationAST,
+  getVariableValues,
+  GraphQLField,
+  GraphQLNamedType,
+  GraphQLResolveInfo,
+  GraphQLSchema,
+  isInterfaceType,
+  isLeafType,
+  isObjectType,
+  Kind,
+  SelectionSetNode,
+} from 'graphql';
+import { LabeledSeries } from './histogram';
+
+// DataLoader for preventing N+1 queries. Create one per request (see createLoaders in
+// src/loaders.ts): results are memoized for the loader's lifetime, so a shared instance would
+// serve one caller's rows to another and keep serving them after they change.
 class EmployeeDataLoader {
-  private static instance: EmployeeDataLoader;
   private employeeLoader: DataLoader<number, any>;
   private employeeByEmailLoader: DataLoader<string, any>;
 
-  private constructor(prisma: PrismaClient) {
+  // cache: false still batches but never memoizes, for contexts that outlive one operation
+  constructor(prisma: PrismaClient, options: { cache?: boolean } = {}) {
+    const include = { subjects: { orderBy: { name: 'asc' as const } }, department: true };
+
     this.employeeLoader = new DataLoader(async (ids: readonly number[]) => {
       const employees = await prisma.employee.findMany({
         where: { id: { in: [...ids] } },
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          age: true,
-          department: true,
-          position: true,
-          salary: true,
-          class: true,
-          subjects: true,
-          attendance: true,
-          avatar: true,
-          phone: true,
-          address: true,
-          startDate: true,
-          status: true,
-          role: true,
-        },
+        include,
       });
 
       // Return employees in the same order as requested IDs
       const employeeMap = new Map(employees.map(emp => [emp.id, emp]));
       return ids.map(id => employeeMap.get(id) || null);
-    });
+    }, { cache: options.cache });
 
+    // MySQL compares emails case-insensitively, so keys are matched the same way
     this.employeeByEmailLoader = new DataLoader(async (emails: readonly string[]) => {
       const employees = await prisma.employee.findMany({
         where: { email: { in: [...emails] } },
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          age: true,
-          department: true,
-          position: true,
-          salary: true,
-          class: true,
-          subjects: true,
-          attendance: true,
-          avatar: true,
-          phone: true,
-          address: true,
-          startDate: true,
-          status: true,
-          role: true,
-        },
+        include,
       });
 
-      const employeeMap = new Map(employees.map(emp => [emp.email, emp]));
-      return emails.map(email => employeeMap.get(email) || null);
-    });
-  }
-
-  static getInstance(prisma: PrismaClient): EmployeeDataLoader {
-    if (!EmployeeDataLoader.instance) {
-      EmployeeDataLoader.instance = new EmployeeDataLoader(prisma);
-    }
-    return EmployeeDataLoader.instance;
+      const employeeMap = new Map(employees.map(emp => [emp.email?.toLowerCase(), emp]));
+      return emails.map(email => employeeMap.get(email.toLowerCase()) || null);
+    }, { cache: options.cache, cacheKeyFn: (email: string) => email.toLowerCase() });
   }
 
+  // Archived employees are returned too; callers decide whether to show them
   load(id: number) {
     return this.employeeLoader.load(id);
   }
@@ -80,26 +63,45 @@ class EmployeeDataLoader {
     return this.employeeByEmailLoader.load(email);
   }
 
+  // Call after writing to an employee so later reads in the same request see the change
   clear(id?: number) {
-    if (id) {
+    if (id !== undefined) {
       this.employeeLoader.clear(id);
     } else {
       this.employeeLoader.clearAll();
     }
+    this.employeeByEmailLoader.clearAll();
   }
 }
 
+interface QueryCost {
+  complexity: number;
+  depth: number;
+}
+
+// Size arguments that multiply the cost of everything selected below a field
+const LIST_SIZE_ARGUMENTS = ['pageSize', 'first', 'last'];
+// Assumed size when a field takes a size argument but the query leaves it out
+const DEFAULT_LIST_SIZE = 10;
+
 // Query complexity analysis
 class QueryComplexityAnalyzer {
-  private static complexityRules = {
+  static maxComplexity = parseInt(process.env.MAX_QUERY_COMPLEXITY || '1000');
+  static maxDepth = parseInt(process.env.MAX_QUERY_DEPTH || '10');
+
+  // Fields not listed cost 1 when they return an object and 0 when they return a scalar
+  private static complexityRules: Record<string, Record<string, number>> = {
     Query: {
       employees: 1,
       employee: 1,
     },
     Mutation: {
       addEmployee: 10,
+      importEmployees: 50,
       updateEmployee: 5,
       deleteEmployee: 5,
+      purgeArchivedEmployees: 10,
+      markAttendance: 10,
       login: 1,
       register: 10,
       resendPasswordEmail: 5,
@@ -124,41 +126,82 @@ class QueryComplexityAnalyzer {
     },
   };
 
-  static calculateComplexity(info: GraphQLResolveInfo): number {
-    let complexity = 0;
-    const maxComplexity = 1000; // Adjust based on your needs
-
-    const calculateFieldComplexity = (fieldName: string, parentType: string): number => {
-      const rules = this.complexityRules[parentType as keyof typeof this.complexityRules];
-      return rules?.[fieldName as keyof typeof rules] || 1;
+  // Cost and depth of a whole operation, following fragments. Each field costs its rule plus its
+  // selections, all multiplied by the list size it asks for, so a huge page costs as much as the
+  // rows it loads even when none of their fields are selected. Introspection fields are free.
+  static analyze(
+    schema: GraphQLSchema,
+    document: DocumentNode,
+    operationName?: string | null,
+    variables?: Record<string, unknown> | null
+  ): QueryCost {
+    const operation = getOperationAST(document, operationName);
+    const rootType = operation && schema.getRootType(operation.operation);
+    if (!operation || !rootType) return { complexity: 0, depth: 0 };
+
+    const fragments = new Map<string, FragmentDefinitionNode>();
+    for (const definition of document.definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) fragments.set(definition.name.value, definition);
+    }
+    const coerced = getVariableValues(schema, operation.variableDefinitions ?? [], variables ?? {});
+    const variableValues = coerced.coerced ?? {};
+
+    // A fragment costs the same wherever it is spread, so each is walked once
+    const fragmentCosts = new Map<string, QueryCost>();
+    const visiting = new Set<string>();
+
+    const listSize = (field: GraphQLField<any, any>, node: FieldNode): number => {
+      const sizeArgs = field.args.filter((arg) => LIST_SIZE_ARGUMENTS.includes(arg.name));
+      if (sizeArgs.length === 0) return 1;
+      let values: Record<string, unknown> = {};
+      try {
+        values = getArgumentValues(field, node, variableValues);
+      } catch {
+        // Invalid arguments fail at execution; assume the default meanwhile
+      }
+      const given = sizeArgs.map((arg) => values[arg.name]).find((value) => typeof value === 'number');
+      return Math.max(typeof given === 'number' ? given : DEFAULT_LIST_SIZE, 1);
     };
 
-    const traverse = (selections: readonly any[], parentType: string): number => {
-      let fieldComplexity = 0;
-
-      for (const selection of selections) {
-        if (selection.kind === 'Field') {
-          const fieldComplexityValue = calculateFieldComplexity(selection.name.value, parentType);
-          fieldComplexity += fieldComplexityValue;
-
-          if (selection.selectionSet) {
-            fieldComplexity += traverse(selection.selectionSet.selections, selection.name.value);
+    const walk = (selectionSet: SelectionSetNode, parentType: GraphQLNamedType): QueryCost => {
+      const total: QueryCost = { complexity: 0, depth: 0 };
+      const add = (cost: QueryCost) => {
+        total.complexity += cost.complexity;
+        total.depth = Math.max(total.depth, cost.depth);
+      };
+
+      for (const selection of selectionSet.selections) {
+        if (selection.kind === Kind.FIELD) {
+          const name = selection.name.value;
+          if (name.startsWith('__')) continue;
+          const field = isObjectType(parentType) || isInterfaceType(parentType) ? parentType.getFields()[name] : undefined;
+          if (!field) continue;
+          const type = getNamedType(field.type);
+          const rule = this.complexityRules[parentType.name]?.[name];
+          const own = rule ?? (isLeafType(type) ? 0 : 1);
+          const children = selection.selectionSet ? walk(selection.selectionSet, type) : { complexity: 0, depth: 0 };
+          add({ complexity: listSize(field, selection) * (own + children.complexity), depth: children.depth + 1 });
+        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+          const type = selection.typeCondition ? schema.getType(selection.typeCondition.name.value) : parentType;
+          add(walk(selection.selectionSet, type ?? parentType));
+        } else {
+          const name = selection.name.value;
+          const fragment = fragments.get(name);
+          // Unknown and cyclic spreads are rejected by validation before this runs
+          if (!fragment || visiting.has(name)) continue;
+          if (!fragmentCosts.has(name)) {
+            visiting.add(name);
+            const type = schema.getType(fragment.typeCondition.name.value) ?? parentType;
+            fragmentCosts.set(name, walk(fragment.selectionSet, type));
+            visiting.delete(name);
           }
-        } else if (selection.kind === 'InlineFragment') {
-          fieldComplexity += traverse(selection.selectionSet.selections, parentType);
+          add(fragmentCosts.get(name)!);
         }
       }
-
-      return fieldComplexity;
+      return total;
     };
 
-    complexity = traverse(info.fieldNodes[0].selectionSet?.selections || [], info.parentType.name);
-
-    if (complexity > maxComplexity) {
-      throw new Error(`Query complexity (${complexity}) exceeds maximum allowed (${maxComplexity})`);
-    }
-
-    return complexity;
+    return walk(operation.selectionSet, rootType);
   }
 }
 
@@ -211,30 +254,69 @@ class ResponseOptimizer {
   }
 }
 
+interface CacheEntry {
+  data: any;
+  timestamp: number;
+  ttl: number;
+  // Decides whether a change to some record makes this entry stale; see invalidate()
+  dependsOn?: (change: any) => boolean;
+}
+
 // Caching middleware for GraphQL responses
 class GraphQLCache {
-  private static cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
-
-  static set(key: string, data: any, ttl: number = 300000): void { // 5 minutes default
+  private static cache = new Map<string, CacheEntry>();
+  private static maxEntries = parseInt(process.env.GRAPHQL_CACHE_MAX_ENTRIES || '1000');
+  private static hits = 0;
+  private static misses = 0;
+
+  static set(
+    key: string,
+    data: any,
+    ttl: number = 300000, // 5 minutes default
+    dependsOn?: (change: any) => boolean
+  ): void {
+    // Re-inserting moves the key to the end, so the first key is always the oldest
+    this.cache.delete(key);
+    if (this.cache.size >= this.maxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
     this.cache.set(key, {
       data,
       timestamp: Date.now(),
       ttl,
+      dependsOn,
     });
   }
 
   static get(key: string): any | null {
     const cached = this.cache.get(key);
-    if (!cached) return null;
+    if (!cached) {
+      this.misses++;
+      return null;
+    }
 
     if (Date.now() - cached.timestamp > cached.ttl) {
       this.cache.delete(key);
+      this.misses++;
       return null;
     }
 
+    this.hits++;
     return cached.data;
   }
 
+  // Drops every entry whose dependsOn accepts one of the changes; entries without one are kept
+  static invalidate(...changes: any[]): number {
+    let removed = 0;
+    for (const [key, entry] of this.cache) {
+      if (entry.dependsOn && changes.some((change) => change && entry.dependsOn!(change))) {
+        this.cache.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
   static generateKey(operation: string, variables: any): string {
     return `${operation}_${JSON.stringify(variables)}`;
   }
@@ -251,53 +333,117 @@ class GraphQLCache {
     }
   }
 
-  static getStats(): { size: number; hitRate: number } {
+  static getStats(): { size: number; hits: number; misses: number; hitRate: number } {
+    const lookups = this.hits + this.misses;
     return {
       size: this.cache.size,
-      hitRate: 0, // Would need to track hits/misses for accurate rate
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
     };
   }
 }
 
+interface TimingStats {
+  count: number;
+  total: number;
+  max: number;
+}
+
+interface OperationTiming extends TimingStats {
+  errors: number;
+}
+
+function recordTiming(stats: TimingStats, duration: number): void {
+  stats.count++;
+  stats.total += duration;
+  stats.max = Math.max(stats.max, duration);
+}
+
+function summarizeTiming(stats: TimingStats): { avg: number; count: number; max: number } {
+  return {
+    avg: Math.round((stats.total / stats.count) * 100) / 100,
+    count: stats.count,
+    max: Math.round(stats.max * 100) / 100,
+  };
+}
+
 // Performance monitoring for GraphQL operations
 class GraphQLPerformanceMonitor {
-  private static operationTimes: Map<string, number[]> = new Map();
-  private static slowOperationThreshold = 500; // 500ms
-
-  static startOperation(operationName: string): () => void {
-    const startTime = performance.now();
-    return () => {
+  // Operation names come from clients, so past these limits new ones are counted under "other"
+  private static operations = new LabeledSeries<OperationTiming>(
+    () => ({ count: 0, total: 0, max: 0, errors: 0 }),
+    200,
+    { type: 'other', operation: 'other' }
+  );
+  private static resolvers = new LabeledSeries<TimingStats>(() => ({ count: 0, total: 0, max: 0 }), 500, { path: 'other' });
+  private static slowOperationThreshold = parseInt(process.env.SLOW_OPERATION_THRESHOLD || '500'); // ms
+  // Individual resolvers are only timed when this is set; those taking at least this long are recorded
+  static resolverThreshold: number | null = process.env.SLOW_RESOLVER_THRESHOLD
+    ? parseInt(process.env.SLOW_RESOLVER_THRESHOLD)
+    : null;
+
+  // Operations are keyed by type and name, e.g. "query employees"
+  static startOperation(
+    operationName: string,
+    operationType: string = 'query',
+    startTime: number = performance.now()
+  ): (result?: { errors?: number; slowResolvers?: string[] }) => void {
+    return ({ errors = 0, slowResolvers = [] } = {}) => {
       const duration = performance.now() - startTime;
-      this.recordOperationTime(operationName, duration);
+      this.recordOperationTime(operationName, operationType, duration, errors);
       
       if (duration > this.slowOperationThreshold) {
-        console.warn(`🐌 Slow GraphQL operation: ${operationName} took ${duration.toFixed(2)}ms`);
+        const details = [
+          ...(errors > 0 ? [`${errors} error(s)`] : []),
+          ...(slowResolvers.length > 0 ? [`slow resolvers: ${slowResolvers.join(', ')}`] : []),
+        ];
+        console.warn(
+          `🐌 Slow GraphQL operation: ${operationType} ${operationName} took ${duration.toFixed(2)}ms` +
+            (details.length > 0 ? ` (${details.join('; ')})` : '')
+        );
       }
     };
   }
 
-  private static recordOperationTime(operationName: string, duration: number): void {
-    if (!this.operationTimes.has(operationName)) {
-      this.operationTimes.set(operationName, []);
-    }
-    this.operationTimes.get(operationName)!.push(duration);
+  private static recordOperationTime(operationName: string, operationType: string, duration: number, errors: number): void {
+    const stats = this.operations.get({ type: operationType, operation: operationName });
+    recordTiming(stats, duration);
+    stats.errors += errors;
   }
 
-  static getOperationStats(): Record<string, { avg: number; count: number; max: number }> {
-    const stats: Record<string, { avg: number; count: number; max: number }> = {};
+  // Records a resolver under "Type.field" if it reached the threshold; returns whether it did
+  static recordResolverTime(path: string, duration: number): boolean {
+    if (this.resolverThreshold === null || duration < this.resolverThreshold) return false;
+    recordTiming(this.resolvers.get({ path }), duration);
+    return true;
+  }
+
+  static getOperationStats(): Record<string, { type: string; avg: number; count: number; max: number; errors: number }> {
+    const stats: Record<string, { type: string; avg: number; count: number; max: number; errors: number }> = {};
     
-    for (const [operationName, times] of this.operationTimes.entries()) {
-      const avg = times.reduce((sum, time) => sum + time, 0) / times.length;
-      const max = Math.max(...times);
-      stats[operationName] = { avg, count: times.length, max };
+    for (const { labels, value } of this.operations.entries()) {
+      stats[`${labels.type} ${labels.operation}`] = { type: labels.type, ...summarizeTiming(value), errors: value.errors };
     }
     
     return stats;
   }
+
+  // Only resolvers that reached the threshold at least once appear here
+  static getResolverStats(): Record<string, { avg: number; count: number; max: number }> {
+    const stats: Record<string, { avg: number; count: number; max: number }> = {};
+
+    for (const { labels, value } of this.resolvers.entries()) {
+      stats[labels.path] = summarizeTiming(value);
+    }
+
+    return stats;
+  }
 }
 
 export {
   EmployeeDataLoader,
+  QueryCost,
   QueryComplexityAnalyzer,
   ResponseOptimizer,
   GraphQLCache,
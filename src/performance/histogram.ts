@@ -0,0 +1,50 @@
+// Upper bounds in seconds, matching the Prometheus client defaults
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Cumulative latency distribution. Unlike the rolling averages kept for the JSON views it is
+// never reset, which is what Prometheus expects of a histogram.
+class Histogram {
+  readonly counts: number[];
+  sum = 0;
+  count = 0;
+
+  constructor(readonly buckets: number[] = DEFAULT_BUCKETS) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) this.counts[i]++;
+    }
+  }
+}
+
+// Histograms and counters kept per label set. Labels can come from request paths, so the number of
+// series is capped; once full, new label sets are folded into `overflow`.
+class LabeledSeries<T> {
+  private series = new Map<string, { labels: Record<string, string>; value: T }>();
+
+  constructor(private create: () => T, private maxSeries: number, private overflow: Record<string, string>) {}
+
+  get(labels: Record<string, string>): T {
+    let key = JSON.stringify(labels);
+    if (!this.series.has(key) && this.series.size >= this.maxSeries) {
+      labels = this.overflow;
+      key = JSON.stringify(labels);
+    }
+    if (!this.series.has(key)) this.series.set(key, { labels, value: this.create() });
+    return this.series.get(key)!.value;
+  }
+
+  entries(): { labels: Record<string, string>; value: T }[] {
+    return [...this.series.values()];
+  }
+}
+
+export {
+  DEFAULT_BUCKETS,
+  Histogram,
+  LabeledSeries,
+};
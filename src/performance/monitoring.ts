@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { performance } from 'perf_hooks';
 import { QueryPerformanceMonitor, DatabaseHealthCheck } from './databaseOptimizer';
 import { GraphQLPerformanceMonitor, GraphQLCache } from './graphqlOptimizer';
+import { Histogram, LabeledSeries } from './histogram';
+import { PROMETHEUS_CONTENT_TYPE, PrometheusWriter } from './prometheus';
 
 // Performance metrics collection
 class PerformanceMetrics {
@@ -76,9 +78,15 @@ class RequestMonitor {
   private static requestCounts: Map<string, { count: number; lastReset: number }> = new Map();
   private static requestTimes: Map<string, number[]> = new Map();
   private static resetInterval = 60000; // 1 minute
+  // Cumulative totals for Prometheus; the figures above reset every minute
+  private static requestTotals = new LabeledSeries(() => ({ value: 0 }), 500, { method: 'other', route: 'other', status: 'other' });
+  private static requestDurations = new LabeledSeries(() => new Histogram(), 100, { method: 'other', route: 'other' });
 
-  static recordRequest(endpoint: string, duration: number): void {
+  static recordRequest(endpoint: string, duration: number, statusCode: number = 200): void {
     const now = Date.now();
+    const [method, route] = endpoint.split(' ');
+    this.requestTotals.get({ method, route, status: String(statusCode) }).value++;
+    this.requestDurations.get({ method, route }).observe(duration / 1000);
     
     // Reset counters if needed
     if (!this.requestCounts.has(endpoint) || 
@@ -129,16 +137,26 @@ class RequestMonitor {
 
     return stats;
   }
+
+  static getRequestTotals() {
+    return this.requestTotals.entries();
+  }
+
+  static getRequestHistograms() {
+    return this.requestDurations.entries();
+  }
 }
 
 // Performance monitoring middleware
 export const performanceMiddleware = (req: Request, res: Response, next: Function) => {
   const startTime = performance.now();
   const endpoint = `${req.method} ${req.path}`;
+  const requestId = Math.random().toString(36).substring(7);
+  (req as any).requestId = requestId;
 
   // Add performance headers
   res.setHeader('X-Response-Time', '0ms');
-  res.setHeader('X-Request-ID', Math.random().toString(36).substring(7));
+  res.setHeader('X-Request-ID', requestId);
 
   // Override end method to capture response time
   const originalEnd = res.end;
@@ -147,7 +165,7 @@ export const performanceMiddleware = (req: Request, res: Response, next: Functio
     res.setHeader('X-Response-Time', `${Math.round(duration)}ms`);
     
     // Record request metrics
-    RequestMonitor.recordRequest(endpoint, duration);
+    RequestMonitor.recordRequest(endpoint, duration, res.statusCode);
     
     return originalEnd.call(this, chunk, encoding);
   };
@@ -189,8 +207,75 @@ export const healthCheck = async (req: Request, res: Response) => {
   }
 };
 
+// Prometheus text exposition of the same figures, with cumulative counters and histograms
+async function prometheusMetrics(): Promise<string> {
+  const dbHealth = await DatabaseHealthCheck.checkConnection();
+  const memory = process.memoryUsage();
+  const cache = GraphQLCache.getStats();
+  // The process clock, since PerformanceMetrics only starts counting on first use
+  const uptime = process.uptime();
+
+  return new PrometheusWriter()
+    .counter(
+      'http_requests_total',
+      'HTTP requests handled, by method, path and status code.',
+      RequestMonitor.getRequestTotals().map(({ labels, value }) => ({ labels, value: value.value }))
+    )
+    .histogram('http_request_duration_seconds', 'HTTP request duration in seconds.', RequestMonitor.getRequestHistograms())
+    .histogram(
+      'db_query_duration_seconds',
+      'Duration of monitored database queries in seconds.',
+      QueryPerformanceMonitor.getInstance().getQueryHistograms()
+    )
+    .gauge('db_up', 'Whether the database answered the last health check (1) or not (0).', [
+      { value: dbHealth.status === 'healthy' ? 1 : 0 },
+    ])
+    .gauge('db_ping_latency_seconds', 'Latency of the database health check in seconds.', [{ value: dbHealth.latency / 1000 }])
+    .counter('graphql_cache_hits_total', 'Query cache lookups that found a fresh entry.', [{ value: cache.hits }])
+    .counter('graphql_cache_misses_total', 'Query cache lookups that found nothing or an expired entry.', [{ value: cache.misses }])
+    .gauge('graphql_cache_entries', 'Entries currently held in the query cache.', [{ value: cache.size }])
+    .gauge('process_resident_memory_bytes', 'Resident memory size in bytes.', [{ value: memory.rss }])
+    .gauge('nodejs_heap_size_total_bytes', 'V8 heap size in bytes.', [{ value: memory.heapTotal }])
+    .gauge('nodejs_heap_size_used_bytes', 'V8 heap used in bytes.', [{ value: memory.heapUsed }])
+    .gauge('nodejs_external_memory_bytes', 'Memory used by C++ objects bound to JavaScript, in bytes.', [{ value: memory.external }])
+    .gauge('process_start_time_seconds', 'Start time of the process since the Unix epoch in seconds.', [
+      { value: Math.round(Date.now() / 1000 - uptime) },
+    ])
+    .gauge('process_uptime_seconds', 'Seconds since the process started.', [{ value: uptime }])
+    .toString();
+}
+
+// Prometheus output with ?format=prometheus or an Accept header preferring the text formats;
+// JSON otherwise, including for browsers and plain curl. Scrapers add parameters such as
+// version=0.0.4 that req.accepts() would insist on matching, so only media types are compared.
+function wantsPrometheus(req: Request): boolean {
+  if (req.query.format === 'prometheus') return true;
+  if (req.query.format === 'json') return false;
+  let json = 0;
+  let text = 0;
+  for (const part of (req.get('Accept') || '').split(',')) {
+    const [type, ...params] = part.split(';').map((piece) => piece.trim().toLowerCase());
+    const q = params.find((param) => param.startsWith('q='));
+    const quality = q ? parseFloat(q.slice(2)) || 0 : 1;
+    if (type === 'application/json') json = Math.max(json, quality);
+    if (type === 'application/openmetrics-text' || type === 'text/plain') text = Math.max(text, quality);
+  }
+  return text > json;
+}
+
 // Performance metrics endpoint
-export const performanceMetrics = (req: Request, res: Response) => {
+export const performanceMetrics = async (req: Request, res: Response) => {
+  if (wantsPrometheus(req)) {
+    try {
+      res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+      res.send(await prometheusMetrics());
+    } catch (error) {
+      console.error('Error rendering Prometheus metrics:', error);
+      res.status(500).type('text/plain').send('# metrics unavailable\n');
+    }
+    return;
+  }
+
   const metrics = {
     timestamp: new Date().toISOString(),
     uptime: PerformanceMetrics.getInstance().getUptime(),
@@ -198,10 +283,11 @@ export const performanceMetrics = (req: Request, res: Response) => {
     requests: RequestMonitor.getRequestStats(),
     database: {
       queryStats: QueryPerformanceMonitor.getInstance().getQueryStats(),
-      health: DatabaseHealthCheck.checkConnection(),
+      health: await DatabaseHealthCheck.checkConnection(),
     },
     graphql: {
       operationStats: GraphQLPerformanceMonitor.getOperationStats(),
+      resolverStats: GraphQLPerformanceMonitor.getResolverStats(),
       cacheStats: GraphQLCache.getStats(),
     },
     system: {
@@ -234,6 +320,13 @@ export const getOptimizationRecommendations = (req: Request, res: Response) => {
     }
   }
 
+  // GraphQL recommendations
+  for (const [operation, stats] of Object.entries(GraphQLPerformanceMonitor.getOperationStats())) {
+    if (stats.avg > 500) {
+      recommendations.push(`Slow GraphQL operation: ${operation} (avg: ${stats.avg}ms). Set SLOW_RESOLVER_THRESHOLD to find the slow resolvers.`);
+    }
+  }
+
   // Request recommendations
   for (const [endpoint, stats] of Object.entries(requestStats)) {
     if (stats.avgResponseTime > 500) {
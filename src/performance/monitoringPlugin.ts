@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import { PluginDefinition } from 'apollo-server-core';
+import {
+  DocumentNode,
+  Kind,
+  OperationDefinitionNode,
+  print,
+  SelectionNode,
+  stripIgnoredCharacters,
+  visit,
+} from 'graphql';
+import { GraphQLPerformanceMonitor } from './graphqlOptimizer';
+
+// Slowest resolvers named in a slow-operation warning
+const MAX_REPORTED_RESOLVERS = 5;
+
+// Anonymous operations are grouped by their root fields plus a hash of the document with
+// literals and aliases removed and fields sorted, so the same query with different inputs
+// lands in one entry
+function selectionSortKey(selection: SelectionNode): string {
+  if (selection.kind === Kind.FIELD) return selection.name.value;
+  if (selection.kind === Kind.FRAGMENT_SPREAD) return `...${selection.name.value}`;
+  return `... on ${selection.typeCondition?.name.value ?? ''}`;
+}
+
+function querySignature(document: DocumentNode, operation: OperationDefinitionNode): string {
+  const normalized = visit(document, {
+    IntValue: () => ({ kind: Kind.INT, value: '0' }),
+    FloatValue: () => ({ kind: Kind.FLOAT, value: '0' }),
+    StringValue: () => ({ kind: Kind.STRING, value: '' }),
+    ListValue: () => ({ kind: Kind.LIST, values: [] }),
+    ObjectValue: () => ({ kind: Kind.OBJECT, fields: [] }),
+    Field: (node) => ({ ...node, alias: undefined }),
+    SelectionSet: {
+      leave: (node) => ({
+        ...node,
+        selections: [...node.selections].sort((a, b) => selectionSortKey(a).localeCompare(selectionSortKey(b))),
+      }),
+    },
+  });
+  const hash = createHash('sha1').update(stripIgnoredCharacters(print(normalized))).digest('hex').slice(0, 8);
+  const rootFields = operation.selectionSet.selections
+    .map((selection) => (selection.kind === Kind.FIELD ? selection.name.value : '...'))
+    .join(',');
+  return `anonymous(${rootFields})#${hash}`;
+}
+
+// Times every operation from the moment it is received, records its errors, and when
+// SLOW_RESOLVER_THRESHOLD is set, times each resolver too. Requests that never resolve to an
+// operation (syntax or validation errors) are not recorded.
+const monitoringPlugin: PluginDefinition = {
+  async requestDidStart() {
+    let end: ReturnType<typeof GraphQLPerformanceMonitor.startOperation> | undefined;
+    const startedAt = performance.now();
+    let errors = 0;
+    const slowResolvers: { path: string; duration: number }[] = [];
+
+    return {
+      async didResolveOperation({ document, operation, operationName }) {
+        if (!operation) return;
+        const name = operationName ?? querySignature(document, operation);
+        // Timed from when the request arrived, so parsing and validation count too
+        end = GraphQLPerformanceMonitor.startOperation(name, operation.operation, startedAt);
+      },
+      async executionDidStart() {
+        if (GraphQLPerformanceMonitor.resolverThreshold === null) return;
+        return {
+          willResolveField({ info }) {
+            const start = performance.now();
+            return () => {
+              const path = `${info.parentType.name}.${info.fieldName}`;
+              const duration = performance.now() - start;
+              if (GraphQLPerformanceMonitor.recordResolverTime(path, duration)) {
+                slowResolvers.push({ path, duration });
+              }
+            };
+          },
+        };
+      },
+      async didEncounterErrors({ errors: encountered }) {
+        errors += encountered.length;
+      },
+      async willSendResponse() {
+        if (!end) return;
+        const slowest = slowResolvers
+          .sort((a, b) => b.duration - a.duration)
+          .slice(0, MAX_REPORTED_RESOLVERS)
+          .map(({ path, duration }) => `${path} ${duration.toFixed(0)}ms`);
+        end({ errors, slowResolvers: slowest });
+      },
+    };
+  },
+};
+
+export {
+  monitoringPlugin,
+  querySignature,
+};
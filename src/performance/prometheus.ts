@@ -0,0 +1,69 @@
+import { Histogram } from './histogram';
+
+type Labels = Record<string, string>;
+
+// Version 0.0.4 of the text format, which Prometheus and OpenMetrics scrapers both accept
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
+
+// Builds a Prometheus text exposition, one metric family at a time
+class PrometheusWriter {
+  private lines: string[] = [];
+
+  private family(name: string, type: 'counter' | 'gauge' | 'histogram', help: string) {
+    this.lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    this.lines.push(`# TYPE ${name} ${type}`);
+  }
+
+  private sample(name: string, labels: Labels, value: number) {
+    this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  counter(name: string, help: string, samples: { labels?: Labels; value: number }[]): this {
+    this.family(name, 'counter', help);
+    for (const { labels = {}, value } of samples) this.sample(name, labels, value);
+    return this;
+  }
+
+  gauge(name: string, help: string, samples: { labels?: Labels; value: number }[]): this {
+    this.family(name, 'gauge', help);
+    for (const { labels = {}, value } of samples) this.sample(name, labels, value);
+    return this;
+  }
+
+  histogram(name: string, help: string, series: { labels: Labels; value: Histogram }[]): this {
+    this.family(name, 'histogram', help);
+    for (const { labels, value: histogram } of series) {
+      histogram.buckets.forEach((bound, i) => {
+        this.sample(`${name}_bucket`, { ...labels, le: formatValue(bound) }, histogram.counts[i]);
+      });
+      this.sample(`${name}_bucket`, { ...labels, le: '+Inf' }, histogram.count);
+      this.sample(`${name}_sum`, labels, histogram.sum);
+      this.sample(`${name}_count`, labels, histogram.count);
+    }
+    return this;
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+export {
+  PROMETHEUS_CONTENT_TYPE,
+  PrometheusWriter,
+};
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assertCanAccess, assertCanRegisterWith } from './permissions';
+
+const manager = { id: 10, role: 'MANAGER', departmentId: 1 };
+const admin = { id: 1, role: 'ADMIN', departmentId: 1 };
+
+test('a manager can change employees in their department but not peers or admins', () => {
+  assert.doesNotThrow(() => assertCanAccess(manager, 'employee:write', { id: 20, departmentId: 1, role: 'EMPLOYEE' }));
+  for (const role of ['MANAGER', 'ADMIN']) {
+    const target = { id: 30, departmentId: 1, role };
+    for (const permission of ['employee:write', 'email:send', 'session:revoke', 'attendance:write', 'leave:approve'] as const) {
+      assert.throws(() => assertCanAccess(manager, permission, target), /equal or higher role/);
+    }
+  }
+});
+
+test('a manager can still read peers and admins in their department', () => {
+  assert.doesNotThrow(() => assertCanAccess(manager, 'employee:read', { id: 30, departmentId: 1, role: 'MANAGER' }));
+  assert.doesNotThrow(() => assertCanAccess(manager, 'personal:read', { id: 1, departmentId: 1, role: 'ADMIN' }));
+});
+
+test('a manager can edit their own record', () => {
+  assert.doesNotThrow(() => assertCanAccess(manager, 'employee:write', { id: 10, departmentId: 1, role: 'MANAGER' }));
+  assert.doesNotThrow(() => assertCanAccess(manager, 'session:revoke', { id: 10, departmentId: 1, role: 'MANAGER' }));
+});
+
+test('an employee without a known role is never managed by department scope', () => {
+  assert.throws(() => assertCanAccess(manager, 'employee:write', { id: 20, departmentId: 1 }), /equal or higher role/);
+});
+
+test('admins are not limited by rank', () => {
+  assert.doesNotThrow(() => assertCanAccess(admin, 'employee:write', { id: 2, departmentId: 5, role: 'ADMIN' }));
+});
+
+test('anonymous registration cannot choose a role', () => {
+  assert.throws(() => assertCanRegisterWith(undefined, { role: 'ADMIN' }), /cannot set a role or salary/);
+});
+
+test('anonymous registration cannot set a salary', () => {
+  assert.throws(() => assertCanRegisterWith(undefined, { salary: 100000 }), /cannot set a role or salary/);
+});
+
+test('anonymous registration without role or salary is allowed', () => {
+  assert.doesNotThrow(() => assertCanRegisterWith(undefined, {}));
+  assert.doesNotThrow(() => assertCanRegisterWith(null, { role: null, salary: null }));
+});
+
+test('signed-in callers need role:assign and salary:write to register with them', () => {
+  assert.throws(() => assertCanRegisterWith(manager, { role: 'ADMIN' }), /assign roles/);
+  assert.throws(() => assertCanRegisterWith(manager, { salary: 100000 }), /change salaries/);
+  assert.doesNotThrow(() => assertCanRegisterWith(admin, { role: 'MANAGER', salary: 100000 }));
+});
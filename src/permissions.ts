@@ -0,0 +1,202 @@
+import { Prisma } from '@prisma/client';
+import { AuthenticationError, ForbiddenError } from 'apollo-server-express';
+
+type Permission =
+  | 'employee:read'
+  | 'employee:write'
+  | 'employee:delete'
+  | 'employee:purge'
+  | 'personal:read'
+  | 'salary:read'
+  | 'salary:write'
+  | 'role:assign'
+  | 'email:send'
+  | 'session:revoke'
+  | 'audit:read'
+  | 'subject:write'
+  | 'department:write'
+  | 'attendance:write'
+  | 'leave:approve'
+  | 'leave:manage'
+  | 'account:unlock'
+  | 'email:preview';
+
+// Which employees a role's permissions apply to
+type Scope = 'all' | 'department' | 'self';
+
+interface RoleDefinition {
+  scope: Scope;
+  permissions: Permission[];
+}
+
+const roleDefinitions: Record<string, RoleDefinition> = {
+  ADMIN: {
+    scope: 'all',
+    permissions: [
+      'employee:read',
+      'employee:write',
+      'employee:delete',
+      'employee:purge',
+      'personal:read',
+      'salary:read',
+      'salary:write',
+      'role:assign',
+      'email:send',
+      'session:revoke',
+      'audit:read',
+      'subject:write',
+      'department:write',
+      'attendance:write',
+      'leave:approve',
+      'leave:manage',
+      'account:unlock',
+      'email:preview',
+    ],
+  },
+  MANAGER: {
+    scope: 'department',
+    permissions: [
+      'employee:read',
+      'employee:write',
+      'personal:read',
+      'salary:read',
+      'email:send',
+      'session:revoke',
+      'attendance:write',
+      'leave:approve',
+    ],
+  },
+  EMPLOYEE: {
+    scope: 'self',
+    permissions: ['employee:read', 'personal:read', 'salary:read', 'session:revoke'],
+  },
+};
+
+// Permissions that only read; every other permission changes the employee it is checked against
+const readPermissions: Permission[] = ['employee:read', 'personal:read', 'salary:read', 'audit:read'];
+
+// Department-scoped roles may only change employees ranked below them
+const roleRanks: Record<string, number> = { EMPLOYEE: 0, MANAGER: 1, ADMIN: 2 };
+
+interface Viewer {
+  id: number;
+  role: string;
+  departmentId?: number | null;
+}
+
+function getScope(user: Viewer): Scope {
+  return roleDefinitions[user.role]?.scope ?? 'self';
+}
+
+function getPermissions(user: Viewer): Permission[] {
+  return roleDefinitions[user.role]?.permissions ?? [];
+}
+
+function hasPermission(user: Viewer | null | undefined, permission: Permission): boolean {
+  return !!user && getPermissions(user).includes(permission);
+}
+
+function requirePermission(user: Viewer | null | undefined, permission: Permission): Viewer {
+  if (!user) throw new AuthenticationError('Not authenticated');
+  if (!hasPermission(user, permission)) throw new ForbiddenError('Not authorized');
+  return user;
+}
+
+// Prisma filter restricting a query to the employees the viewer's role covers
+function scopeWhere(user: Viewer): Prisma.EmployeeWhereInput {
+  switch (getScope(user)) {
+    case 'all':
+      return {};
+    case 'department':
+      // A manager without a department only manages themselves
+      return user.departmentId ? { departmentId: user.departmentId } : { id: user.id };
+    default:
+      return { id: user.id };
+  }
+}
+
+function isInScope(user: Viewer, employee: { id: number | string; departmentId?: number | null }): boolean {
+  if (Number(employee.id) === Number(user.id)) return true;
+  switch (getScope(user)) {
+    case 'all':
+      return true;
+    case 'department':
+      return !!user.departmentId && employee.departmentId === user.departmentId;
+    default:
+      return false;
+  }
+}
+
+// Department-level data (budgets, salary totals) follows the same scopes as employees
+function isDepartmentInScope(user: Viewer, department: { id: number | string }): boolean {
+  switch (getScope(user)) {
+    case 'all':
+      return true;
+    case 'department':
+      return !!user.departmentId && Number(department.id) === user.departmentId;
+    default:
+      return false;
+  }
+}
+
+// An employee whose role is unknown is treated as outranking everyone
+function outranks(user: Viewer, employee: { role?: string | null }): boolean {
+  const rank = employee.role != null ? roleRanks[employee.role] : undefined;
+  return rank !== undefined && (roleRanks[user.role] ?? 0) > rank;
+}
+
+function assertCanAccess(
+  user: Viewer | null | undefined,
+  permission: Permission,
+  employee: { id: number | string; departmentId?: number | null; role?: string | null }
+): void {
+  const viewer = requirePermission(user, permission);
+  if (!isInScope(viewer, employee)) throw new ForbiddenError('Not authorized');
+  // Otherwise a manager could change a peer's or an admin's email and reset their password
+  if (
+    !readPermissions.includes(permission) &&
+    getScope(viewer) === 'department' &&
+    Number(employee.id) !== Number(viewer.id) &&
+    !outranks(viewer, employee)
+  ) {
+    throw new ForbiddenError('Not authorized to manage employees of an equal or higher role');
+  }
+}
+
+// Checks the parts of an employee write that need more than `employee:write`
+function assertCanWriteFields(user: Viewer, changes: { role?: string; salary?: number | null; departmentId?: number | null }): void {
+  if (changes.role !== undefined && !hasPermission(user, 'role:assign')) {
+    throw new ForbiddenError('Not authorized to assign roles');
+  }
+  if (changes.salary !== undefined && !hasPermission(user, 'salary:write')) {
+    throw new ForbiddenError('Not authorized to change salaries');
+  }
+  if (changes.departmentId !== undefined && getScope(user) === 'department' && changes.departmentId !== user.departmentId) {
+    throw new ForbiddenError('Not authorized to move employees outside your department');
+  }
+}
+
+// `register` is public, so anonymous sign-ups are always plain employees without a salary. A
+// signed-in caller may set either only with the permissions addEmployee would need.
+function assertCanRegisterWith(user: Viewer | null | undefined, fields: { role?: string | null; salary?: number | null }): void {
+  if (fields.role == null && fields.salary == null) return;
+  if (!user) throw new ForbiddenError('Registration cannot set a role or salary');
+  assertCanWriteFields(user, { role: fields.role ?? undefined, salary: fields.salary ?? undefined });
+}
+
+export {
+  Permission,
+  Scope,
+  Viewer,
+  roleDefinitions,
+  getScope,
+  getPermissions,
+  hasPermission,
+  requirePermission,
+  scopeWhere,
+  isInScope,
+  isDepartmentInScope,
+  assertCanAccess,
+  assertCanWriteFields,
+  assertCanRegisterWith,
+};
@@ -0,0 +1,38 @@
+import { PubSub, PubSubEngine } from 'graphql-subscriptions';
+
+const EMPLOYEE_ADDED = 'EMPLOYEE_ADDED';
+const EMPLOYEE_UPDATED = 'EMPLOYEE_UPDATED';
+const EMPLOYEE_DELETED = 'EMPLOYEE_DELETED';
+
+type EmployeeTopic = typeof EMPLOYEE_ADDED | typeof EMPLOYEE_UPDATED | typeof EMPLOYEE_DELETED;
+
+// In-process by default, which only reaches subscribers connected to this server. Running several
+// instances needs a shared backend: any PubSubEngine (e.g. graphql-redis-subscriptions) can be plugged in.
+let engine: PubSubEngine = new PubSub();
+
+function setPubSubEngine(next: PubSubEngine): void {
+  engine = next;
+}
+
+function getPubSubEngine(): PubSubEngine {
+  return engine;
+}
+
+// Publishing must never fail the mutation that triggered it
+async function publishEmployeeEvent(topic: EmployeeTopic, employee: any): Promise<void> {
+  try {
+    await engine.publish(topic, { employee });
+  } catch (error) {
+    console.error(`Error publishing ${topic}:`, error);
+  }
+}
+
+export {
+  EMPLOYEE_ADDED,
+  EMPLOYEE_UPDATED,
+  EMPLOYEE_DELETED,
+  EmployeeTopic,
+  setPubSubEngine,
+  getPubSubEngine,
+  publishEmployeeEvent,
+};
@@ -0,0 +1,186 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApolloError } from 'apollo-server-express';
+import { PluginDefinition } from 'apollo-server-core';
+
+interface RateLimitRule {
+  max: number;
+  windowSeconds: number;
+}
+
+// Each limit is configured with <PREFIX>_MAX and <PREFIX>_WINDOW_SECONDS; a max of 0 turns it off
+function rule(prefix: string, max: number, windowSeconds: number): RateLimitRule {
+  return {
+    max: parseInt(process.env[`${prefix}_MAX`] || String(max)),
+    windowSeconds: parseInt(process.env[`${prefix}_WINDOW_SECONDS`] || String(windowSeconds)),
+  };
+}
+
+const RATE_LIMITS = {
+  // Every request, keyed by client IP when anonymous and by employee when authenticated
+  ip: rule('RATE_LIMIT_IP', 300, 60),
+  user: rule('RATE_LIMIT_USER', 600, 60),
+  // Per client IP
+  login: rule('RATE_LIMIT_LOGIN', 10, 60),
+  register: rule('RATE_LIMIT_REGISTER', 5, 3600),
+  // Per caller: anything that sends a password email
+  passwordEmail: rule('RATE_LIMIT_PASSWORD_EMAIL', 5, 3600),
+};
+
+// Failed logins for one email before it is locked, and how long the first lock lasts. Each
+// further failure doubles the lock, up to the maximum. Failures are forgotten after a success,
+// an unlock, or a day after the first failure.
+const LOGIN_LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '5');
+const LOGIN_LOCKOUT_BASE_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_BASE_SECONDS || '60');
+const LOGIN_LOCKOUT_MAX_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_MAX_SECONDS || '3600');
+const LOGIN_FAILURE_MEMORY_SECONDS = 24 * 60 * 60;
+
+// Fixed-window counters. Any shared store (e.g. Redis INCR with PEXPIRE) can implement this to
+// enforce limits across several server instances.
+interface RateLimitStore {
+  // Counts one hit, opening a window of windowMs if the key has none
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+  get(key: string): Promise<{ count: number; resetAt: number } | null>;
+  reset(key: string): Promise<void>;
+}
+
+class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs: number = 60 * 1000) {
+    // Expired windows are dropped so keys from one-off clients do not pile up
+    this.sweeper = setInterval(() => {
+      const now = Date.now();
+      for (const [key, window] of this.windows) {
+        if (window.resetAt <= now) this.windows.delete(key);
+      }
+    }, sweepIntervalMs);
+    this.sweeper.unref();
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return { ...window };
+  }
+
+  async get(key: string) {
+    const window = this.windows.get(key);
+    return window && window.resetAt > Date.now() ? { ...window } : null;
+  }
+
+  async reset(key: string) {
+    this.windows.delete(key);
+  }
+}
+
+class RateLimitError extends ApolloError {
+  constructor(message: string, public retryAfter: number, code: 'RATE_LIMITED' | 'ACCOUNT_LOCKED' = 'RATE_LIMITED') {
+    super(message, code, { retryAfter });
+    Object.defineProperty(this, 'name', { value: 'RateLimitError' });
+  }
+}
+
+const RATE_LIMIT_CODES = ['RATE_LIMITED', 'ACCOUNT_LOCKED'];
+
+function secondsUntil(time: number): number {
+  return Math.max(1, Math.ceil((time - Date.now()) / 1000));
+}
+
+class RateLimiter {
+  private store: RateLimitStore = new MemoryRateLimitStore();
+
+  setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  // Counts a hit against the key and throws once it goes over the rule's limit
+  async consume(name: string, limit: RateLimitRule, key: string): Promise<void> {
+    if (limit.max <= 0) return;
+    const { count, resetAt } = await this.store.increment(`${name}:${key}`, limit.windowSeconds * 1000);
+    if (count > limit.max) {
+      throw new RateLimitError('Too many requests, please try again later', secondsUntil(resetAt));
+    }
+  }
+
+  // Express middleware for the general per-IP and per-user limits. Must run after the JWT
+  // middleware so authenticated requests are counted against the employee.
+  middleware = async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    try {
+      if (user) await this.consume('user', RATE_LIMITS.user, String(user.id));
+      else await this.consume('ip', RATE_LIMITS.ip, clientIp(req));
+      next();
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) return next(error);
+      res.setHeader('Retry-After', String(error.retryAfter));
+      res.status(429).json({ errors: [{ message: error.message, extensions: error.extensions }] });
+    }
+  };
+
+  async assertLoginAllowed(email: string): Promise<void> {
+    const lock = await this.store.get(`login-lock:${email.toLowerCase()}`);
+    if (lock) {
+      throw new RateLimitError('Too many failed login attempts, please try again later', secondsUntil(lock.resetAt), 'ACCOUNT_LOCKED');
+    }
+  }
+
+  // Locks are kept by email whether or not an employee has it, so they reveal nothing about
+  // which emails are registered
+  async recordLoginFailure(email: string): Promise<void> {
+    const key = email.toLowerCase();
+    const { count } = await this.store.increment(`login-failures:${key}`, LOGIN_FAILURE_MEMORY_SECONDS * 1000);
+    if (count < LOGIN_LOCKOUT_THRESHOLD) return;
+    const seconds = Math.min(LOGIN_LOCKOUT_BASE_SECONDS * 2 ** (count - LOGIN_LOCKOUT_THRESHOLD), LOGIN_LOCKOUT_MAX_SECONDS);
+    await this.store.reset(`login-lock:${key}`);
+    await this.store.increment(`login-lock:${key}`, seconds * 1000);
+    console.warn(`Login for ${key} locked for ${seconds}s after ${count} failed attempts`);
+  }
+
+  async clearLoginFailures(email: string): Promise<void> {
+    const key = email.toLowerCase();
+    await this.store.reset(`login-failures:${key}`);
+    await this.store.reset(`login-lock:${key}`);
+  }
+}
+
+// req.ip honours the `trust proxy` setting, so behind a proxy it is the original client. WebSocket
+// contexts carry the raw upgrade request, which only has the socket address.
+function clientIp(req: { ip?: string; socket?: { remoteAddress?: string } } | undefined): string {
+  return req?.ip || req?.socket?.remoteAddress || 'unknown';
+}
+
+// Limits hit inside resolvers come back as GraphQL errors; this gives the HTTP response the
+// matching 429 status and Retry-After header
+const rateLimitPlugin: PluginDefinition = {
+  async requestDidStart() {
+    return {
+      async willSendResponse({ response }) {
+        const limited = (response.errors || []).filter((error) => RATE_LIMIT_CODES.includes(error.extensions?.code as string));
+        if (limited.length === 0) return;
+        const retryAfter = Math.max(...limited.map((error) => Number(error.extensions?.retryAfter) || 1));
+        if (response.http) {
+          response.http.status = 429;
+          response.http.headers.set('Retry-After', String(retryAfter));
+        }
+      },
+    };
+  },
+};
+
+export const rateLimiter = new RateLimiter();
+
+export {
+  RATE_LIMITS,
+  RateLimitRule,
+  RateLimitStore,
+  MemoryRateLimitStore,
+  RateLimitError,
+  clientIp,
+  rateLimitPlugin,
+};
@@ -1,9 +1,40 @@
 import { PrismaClient, Role } from '@prisma/client';
 import { GraphQLResolveInfo } from 'graphql';
-import { AuthenticationError, ForbiddenError } from 'apollo-server-express';
-import jwt from 'jsonwebtoken';
+import { AuthenticationError, ForbiddenError, UserInputError } from 'apollo-server-express';
 import bcrypt from 'bcryptjs';
 import { emailService } from './emailService';
+import { withPayloadViewer } from './authDirective';
+import { emailTemplateService, EmailTemplateName, isValidLocale } from './emailTemplates';
+import { validatePassword, generateTemporaryPassword } from './passwordPolicy';
+import { passwordResetService } from './passwordReset';
+import { sessionService, InvalidRefreshTokenError } from './sessions';
+import { auditService } from './audit';
+import { attendanceService, parseDay, formatDay } from './attendance';
+import { leaveService } from './leave';
+import { compensationService } from './compensation';
+import { rateLimiter, RATE_LIMITS, clientIp } from './rateLimit';
+import { withFilter } from 'graphql-subscriptions';
+import {
+  EMPLOYEE_ADDED,
+  EMPLOYEE_UPDATED,
+  EMPLOYEE_DELETED,
+  EmployeeTopic,
+  getPubSubEngine,
+  publishEmployeeEvent,
+} from './pubsub';
+import { buildEmployeeWhere, employeeMayMatch } from './employeeFilter';
+import { parseEmployeeCsv } from './employeeImport';
+import { normalizeOrder, legacyOrderBy, buildEmployeeOrderBy, encodeCursor, decodeCursor, cursorWhere } from './employeeOrder';
+import {
+  requirePermission,
+  assertCanAccess,
+  assertCanWriteFields,
+  assertCanRegisterWith,
+  scopeWhere,
+  isInScope,
+  getScope,
+  hasPermission,
+} from './permissions';
 import { 
   OptimizedQueryBuilder, 
   QueryPerformanceMonitor,
@@ -13,92 +44,483 @@ import {
   EmployeeDataLoader,
   QueryComplexityAnalyzer,
   ResponseOptimizer,
-  GraphQLCache,
   GraphQLPerformanceMonitor
 } from './performance/graphqlOptimizer';
 import { prisma } from './performance/databaseOptimizer';
+import { employeeInclude, formatEmployee } from './employeeFormat';
 
-function parseSubjects(subjects: string): string[] {
+// Connects subjects by name, creating any that do not exist yet
+function connectSubjects(names: string[]) {
+  const unique = Array.from(new Set(names.map(name => name.trim()).filter(name => name !== '')));
+  return unique.map(name => ({ where: { name }, create: { name } }));
+}
+
+// Audit diffs record subjects and department by name rather than as nested rows
+function auditSnapshot(employee: any) {
+  return employee && {
+    ...employee,
+    subjects: employee.subjects?.map((subject: any) => subject.name),
+    department: employee.department?.name ?? null,
+  };
+}
+
+// Maps the free-text department argument onto a Department id. Blank clears the department;
+// unknown names are created for callers who manage departments and rejected for everyone else.
+async function departmentIdForName(prisma: any, name: string | null | undefined, user: any): Promise<number | null | undefined> {
+  if (name === undefined) return undefined;
+  const trimmed = (name || '').trim();
+  if (trimmed === '') return null;
+  const existing = await prisma.department.findUnique({ where: { name: trimmed } });
+  if (existing) return existing.id;
+  if (!hasPermission(user, 'department:write')) throw new UserInputError(`Unknown department "${trimmed}"`);
+  const created = await prisma.department.create({ data: { name: trimmed } });
+  return created.id;
+}
+
+// Rejects a parent assignment that would make a department its own ancestor
+async function assertNoDepartmentCycle(prisma: any, departmentId: number, parentId: number | null) {
+  let current = parentId;
+  while (current !== null) {
+    if (current === departmentId) throw new UserInputError('A department cannot be its own ancestor');
+    const parent = await prisma.department.findUnique({ where: { id: current }, select: { parentId: true } });
+    if (!parent) throw new UserInputError('Parent department not found');
+    current = parent.parentId;
+  }
+}
+
+// Emails a new employee the link to set their first password. Failures are logged rather than
+// thrown so they never undo the employee's creation.
+async function sendSetupEmail(prisma: any, employee: { id: number; name: string; email: string | null; locale: string | null }) {
+  const { name, email, locale } = employee;
+  if (!email) {
+    console.log(`No email provided for ${name}, skipping email notification`);
+    return;
+  }
   try {
-    return JSON.parse(subjects);
-  } catch {
-    return [];
+    const { link, expiresAt } = await passwordResetService.issueSetupToken(prisma, employee.id);
+    const emailSent = await emailService.sendWelcomeEmail({ name, email, locale }, link, expiresAt);
+    if (emailSent) {
+      console.log(`Welcome email sent successfully to ${email}`);
+    } else {
+      console.error(`Failed to send welcome email to ${email}`);
+    }
+  } catch (error) {
+    console.error('Error sending welcome email:', error);
   }
 }
 
-function stringifySubjects(subjects: string[]): string {
-  return JSON.stringify(subjects);
+function assertValidLocale(locale: string | null | undefined) {
+  if (locale != null && !isValidLocale(locale)) {
+    throw new UserInputError('locale must be a language tag such as "en" or "pt-BR"');
+  }
+}
+
+async function assertValidDepartmentHead(prisma: any, headId: number | null) {
+  if (headId === null) return;
+  const head = await prisma.employee.findFirst({ where: { id: headId, deletedAt: null } });
+  if (!head) throw new UserInputError('Department head not found');
+}
+
+// Archived employees stay in the table until purged after this many days
+const ARCHIVE_RETENTION_DAYS = parseInt(process.env.ARCHIVE_RETENTION_DAYS || '365');
+
+// Longest span attendanceReport returns in one call
+const MAX_ATTENDANCE_REPORT_DAYS = 366;
+// Most employees markAttendance updates in one call
+const MAX_ATTENDANCE_MARKS = 500;
+
+function formatAttendanceRecord(record: any) {
+  return {
+    ...record,
+    date: formatDay(record.date),
+    checkInAt: record.checkInAt ? Math.floor(record.checkInAt.getTime() / 1000) : null,
+    checkOutAt: record.checkOutAt ? Math.floor(record.checkOutAt.getTime() / 1000) : null,
+  };
+}
+
+// Subscribers only receive events for employees they could read with a query
+function employeeSubscription(topic: EmployeeTopic, matches: (employee: any, args: any) => boolean = () => true) {
+  return {
+    subscribe: withFilter(
+      (_parent: any, _args: any, context: any) => {
+        requirePermission(context.user, 'employee:read');
+        return getPubSubEngine().asyncIterator(topic);
+      },
+      async (payload: any, args: any, context: any) =>
+        // Sockets re-check their session first, which may close them or change context.user
+        (await context.reauthenticate()) &&
+        hasPermission(context.user, 'employee:read') &&
+        isInScope(context.user, payload.employee) &&
+        matches(payload.employee, args)
+    ),
+    resolve: (payload: any) => payload.employee,
+  };
+}
+
+function formatCompensationChange(change: any) {
+  return {
+    ...change,
+    effectiveDate: formatDay(change.effectiveDate),
+    appliedAt: change.appliedAt ? Math.floor(change.appliedAt.getTime() / 1000) : null,
+    createdAt: Math.floor(change.createdAt.getTime() / 1000),
+  };
+}
+
+function formatLeaveRequest(request: any) {
+  return {
+    ...request,
+    startDate: formatDay(request.startDate),
+    endDate: formatDay(request.endDate),
+    decidedAt: request.decidedAt ? Math.floor(request.decidedAt.getTime() / 1000) : null,
+    createdAt: Math.floor(request.createdAt.getTime() / 1000),
+  };
+}
+
+// Loads a leave request the caller may approve or reject; nobody decides their own leave
+async function findLeaveRequestForApprover(prisma: any, user: any, id: string) {
+  const request = await prisma.leaveRequest.findUnique({ where: { id: Number(id) }, include: { employee: true } });
+  if (!request) throw new Error('Leave request not found');
+  assertCanAccess(user, 'leave:approve', request.employee);
+  if (request.employeeId === user.id) throw new ForbiddenError('You cannot decide your own leave request');
+  return request;
+}
+
+async function decideLeave(context: any, args: { id: string; note?: string }, status: 'APPROVED' | 'REJECTED') {
+  const request = await findLeaveRequestForApprover(context.prisma, context.user, args.id);
+  const decided = await leaveService.decide(context.prisma, request, { status, approverId: context.user.id, note: args.note });
+  if (request.employee.email) {
+    const sent = await emailService.sendLeaveDecisionEmail(request.employee, decided);
+    if (!sent) console.error(`Failed to send leave decision email to ${request.employee.email}`);
+  }
+  return formatLeaveRequest(decided);
+}
+
+const DEFAULT_CONNECTION_SIZE = 10;
+const MAX_CONNECTION_SIZE = 100;
+
+function connectionSize(value: number | null | undefined, name: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Number.isInteger(value) || value < 0 || value > MAX_CONNECTION_SIZE) {
+    throw new UserInputError(`${name} must be between 0 and ${MAX_CONNECTION_SIZE}`);
+  }
+  return value;
+}
+
+function assertCanIncludeArchived(user: any, includeArchived: boolean) {
+  if (includeArchived && !hasPermission(user, 'employee:delete')) {
+    throw new ForbiddenError('Not authorized to view archived employees');
+  }
+}
+
+// The free-text `filter` argument of `employees`, in EmployeeFilter form
+function searchFilter(filter: string) {
+  return filter
+    ? { OR: [{ name: { contains: filter } }, { class: { contains: filter } }, { department: { contains: filter } }, { position: { contains: filter } }] }
+    : null;
+}
+
+// Whether an employee could appear in a list the user requested. Cached list pages use this to
+// decide if a change affects them; any employee in the result set can shift every page.
+function listMayInclude(user: any, includeArchived: boolean, filters: any[]) {
+  return (employee: any) =>
+    isInScope(user, employee) &&
+    (includeArchived || !employee.deletedAt) &&
+    filters.every((filter) => employeeMayMatch(filter, employee));
 }
 
 export const resolvers = {
   Query: {
     employees: async (_parent: any, args: any, context: any) => {
-      if (!context.user) throw new AuthenticationError('Not authenticated');
-      if (context.user.role === 'EMPLOYEE') {
-        // Only return the logged-in employee
-        const employee = await context.prisma.employee.findUnique({ where: { id: context.user.id } });
-        if (!employee) return { employees: [], totalCount: 0 };
-        return {
-          employees: [{
-            ...employee,
-            subjects: parseSubjects(employee.subjects),
-            startDate: employee.startDate ? Math.floor(employee.startDate.getTime() / 1000) : null
-          }],
-          totalCount: 1
-        };
-      }
-      if (context.user.role !== 'ADMIN') throw new ForbiddenError('Not authorized');
-      const { page = 1, pageSize = 10, sortBy = 'id', sortOrder = 'asc', filter = '' } = args;
+      const user = requirePermission(context.user, 'employee:read');
+      const { page = 1, pageSize = 10, sortBy = 'id', sortOrder = 'asc', filter = '', includeArchived = false } = args;
+      const filterWhere = buildEmployeeWhere(user, args.where);
+      const order = normalizeOrder(user, args.orderBy ?? legacyOrderBy(sortBy ?? 'id', sortOrder ?? 'asc'));
+      assertCanIncludeArchived(user, includeArchived);
       const skip = (page - 1) * pageSize;
-      const where = filter
-        ? {
-            OR: [
-              { name: { contains: filter } },
-              { class: { contains: filter } },
-              { department: { contains: filter } },
-              { position: { contains: filter } },
-            ],
-          }
-        : {};
+      const search = searchFilter(filter);
+      const searchWhere = buildEmployeeWhere(user, search);
+      // Only ever list the employees the caller's role covers
+      const where = { AND: [scopeWhere(user), searchWhere, filterWhere, includeArchived ? {} : { deletedAt: null }] };
+      const { employees, totalCount } = await OptimizedQueryBuilder.getEmployeesWithOptimization(context.prisma, {
+        viewer: user,
+        args: { page, pageSize, filter, where: args.where, order, includeArchived },
+        affectedBy: listMayInclude(user, includeArchived, [search, args.where]),
+        where,
+        include: employeeInclude,
+        skip,
+        take: pageSize,
+        orderBy: buildEmployeeOrderBy(order),
+      });
+      return {
+        employees: employees.map(formatEmployee),
+        totalCount,
+      };
+    },
+    employeesConnection: async (_parent: any, args: any, context: any) => {
+      const user = requirePermission(context.user, 'employee:read');
+      const { after, before, includeArchived = false } = args;
+      assertCanIncludeArchived(user, includeArchived);
+      const first = connectionSize(args.first, 'first');
+      const last = connectionSize(args.last, 'last');
+      if (first !== undefined && last !== undefined) {
+        throw new UserInputError('Pass either first or last, not both');
+      }
+      // Paging backwards reads the reversed order from the cursor and flips the rows afterwards
+      const backwards = last !== undefined || (first === undefined && !!before);
+      const size = backwards ? last ?? DEFAULT_CONNECTION_SIZE : first ?? DEFAULT_CONNECTION_SIZE;
+      const order = normalizeOrder(user, args.orderBy);
+
+      const baseWhere = {
+        AND: [scopeWhere(user), buildEmployeeWhere(user, args.filter), includeArchived ? {} : { deletedAt: null }],
+      };
+      const cursors = [
+        ...(after ? [cursorWhere(order, decodeCursor(order, after))] : []),
+        ...(before ? [cursorWhere(order, decodeCursor(order, before), true)] : []),
+      ];
+      const { employees: rows } = await OptimizedQueryBuilder.getEmployeesWithOptimization(context.prisma, {
+        viewer: user,
+        args: { connection: true, filter: args.filter, order, after, before, size, backwards, includeArchived },
+        affectedBy: listMayInclude(user, includeArchived, [args.filter]),
+        where: { AND: [baseWhere, ...cursors] },
+        include: employeeInclude,
+        orderBy: buildEmployeeOrderBy(order, backwards),
+        // One extra row tells us whether another page exists
+        take: size + 1,
+        // The connection counts lazily, only when totalCount is selected
+        includeCount: false,
+      });
+      const hasMore = rows.length > size;
+      const page = rows.slice(0, size);
+      if (backwards) page.reverse();
+
+      const edges = page.map((e: any) => ({
+        cursor: encodeCursor(order, e),
+        node: formatEmployee(e),
+      }));
+      return {
+        edges,
+        pageInfo: {
+          hasNextPage: backwards ? !!before : hasMore,
+          hasPreviousPage: backwards ? hasMore : !!after,
+          startCursor: edges[0]?.cursor ?? null,
+          endCursor: edges[edges.length - 1]?.cursor ?? null,
+        },
+        totalWhere: baseWhere,
+      };
+    },
+    employee: async (
+      _parent: any,
+      { id, includeArchived = false }: { id: number, includeArchived?: boolean },
+      context: any
+    ) => {
+      const user = requirePermission(context.user, 'employee:read');
+      assertCanIncludeArchived(user, includeArchived);
+      if (getScope(user) === 'self') {
+        // Always return the logged-in employee's details
+        id = user.id;
+      }
+      const employee = await OptimizedQueryBuilder.getEmployeeWithOptimization(context.loaders.employees, user, +id);
+      if (!employee || (employee.deletedAt && !includeArchived)) return null;
+      if (!isInScope(user, employee)) throw new ForbiddenError('Not authorized');
+      return formatEmployee(employee);
+    },
+    subjects: async (_parent: any, _args: any, context: any) => {
+      if (!context.user) throw new AuthenticationError('Not authenticated');
+      return context.prisma.subject.findMany({ orderBy: { name: 'asc' } });
+    },
+    subject: async (_parent: any, { id }: { id: string }, context: any) => {
+      if (!context.user) throw new AuthenticationError('Not authenticated');
+      return context.prisma.subject.findUnique({ where: { id: Number(id) } });
+    },
+    employeesBySubject: async (_parent: any, args: any, context: any) => {
+      const user = requirePermission(context.user, 'employee:read');
+      const { subjectId, page = 1, pageSize = 10 } = args;
+      const where = {
+        AND: [scopeWhere(user), { deletedAt: null }, { subjects: { some: { id: Number(subjectId) } } }],
+      };
       const [employees, totalCount] = await Promise.all([
         context.prisma.employee.findMany({
           where,
-          skip,
+          include: employeeInclude,
+          skip: (page - 1) * pageSize,
           take: pageSize,
-          orderBy: { [sortBy]: sortOrder },
+          orderBy: { id: 'asc' },
         }),
         context.prisma.employee.count({ where }),
       ]);
       return {
-        employees: employees.map((e: any) => ({ 
-          ...e, 
-          subjects: parseSubjects(e.subjects),
-          startDate: e.startDate ? Math.floor(e.startDate.getTime() / 1000) : null
-        })),
+        employees: employees.map(formatEmployee),
         totalCount,
       };
     },
-    employee: async (_parent: any, { id }: { id: number }, context: any) => {
+    departments: async (_parent: any, _args: any, context: any) => {
       if (!context.user) throw new AuthenticationError('Not authenticated');
-      if (context.user.role === 'EMPLOYEE') {
-        // Always return the logged-in employee's details
-        id = context.user.id;
-      } else if (context.user.role !== 'ADMIN' && context.user.id !== id) {
-        throw new ForbiddenError('Not authorized');
+      const [departments, totals] = await Promise.all([
+        context.prisma.department.findMany({ orderBy: { name: 'asc' } }),
+        context.prisma.employee.groupBy({
+          by: ['departmentId'],
+          where: { deletedAt: null, departmentId: { not: null } },
+          _count: { id: true },
+          _sum: { salary: true },
+        }),
+      ]);
+      const totalsById = new Map(totals.map((t: any) => [t.departmentId, t]));
+      return departments.map((d: any) => {
+        const total: any = totalsById.get(d.id);
+        return { ...d, headcount: total?._count.id ?? 0, totalSalary: total?._sum.salary ?? 0 };
+      });
+    },
+    department: async (_parent: any, { id }: { id: string }, context: any) => {
+      if (!context.user) throw new AuthenticationError('Not authenticated');
+      return context.prisma.department.findUnique({ where: { id: Number(id) } });
+    },
+    attendanceReport: async (_parent: any, args: { employeeId: string; from: string; to: string }, context: any) => {
+      const employee = await context.prisma.employee.findUnique({ where: { id: Number(args.employeeId) } });
+      if (!employee) throw new Error('Employee not found');
+      assertCanAccess(context.user, 'employee:read', employee);
+      const from = parseDay(args.from, 'from');
+      const to = parseDay(args.to, 'to');
+      if (from > to) throw new UserInputError('from must not be after to');
+      if ((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) >= MAX_ATTENDANCE_REPORT_DAYS) {
+        throw new UserInputError(`Reports cover at most ${MAX_ATTENDANCE_REPORT_DAYS} days`);
       }
-      const employee = await context.prisma.employee.findUnique({ where: { id: +id } });
-      if (!employee) return null;
+      const { records, summary } = await attendanceService.report(context.prisma, employee.id, from, to);
+      return {
+        employeeId: employee.id,
+        from: args.from,
+        to: args.to,
+        records: records.map(formatAttendanceRecord),
+        summary,
+      };
+    },
+    leaveRequests: async (_parent: any, args: { employeeId?: string; status?: string }, context: any) => {
+      const user = requirePermission(context.user, 'employee:read');
+      const requests = await context.prisma.leaveRequest.findMany({
+        where: {
+          employee: { is: scopeWhere(user) },
+          ...(args.employeeId ? { employeeId: Number(args.employeeId) } : {}),
+          ...(args.status ? { status: args.status } : {}),
+        },
+        orderBy: [{ startDate: 'desc' }, { id: 'desc' }],
+      });
+      return requests.map(formatLeaveRequest);
+    },
+    leaveBalances: async (_parent: any, args: { employeeId: string; year?: number }, context: any) => {
+      const employee = await context.prisma.employee.findUnique({ where: { id: Number(args.employeeId) } });
+      if (!employee) throw new Error('Employee not found');
+      assertCanAccess(context.user, 'employee:read', employee);
+      return leaveService.balances(context.prisma, employee.id, args.year ?? new Date().getFullYear());
+    },
+    auditLog: async (_parent: any, args: any, context: any) => {
+      requirePermission(context.user, 'audit:read');
+      const { employeeId, actorId, action, from, to, page = 1, pageSize = 20 } = args;
+      const { events, totalCount } = await auditService.query(context.prisma, {
+        employeeId: employeeId !== undefined && employeeId !== null ? Number(employeeId) : undefined,
+        actorId: actorId !== undefined && actorId !== null ? Number(actorId) : undefined,
+        action: action || undefined,
+        from: from ? new Date(from * 1000) : undefined,
+        to: to ? new Date(to * 1000) : undefined,
+        page,
+        pageSize: Math.min(pageSize, 100),
+      });
       return {
-        ...employee,
-        subjects: parseSubjects(employee.subjects),
-        startDate: employee.startDate ? Math.floor(employee.startDate.getTime() / 1000) : null
+        events: events.map((e: any) => ({
+          ...e,
+          createdAt: Math.floor(e.createdAt.getTime() / 1000)
+        })),
+        totalCount,
       };
     },
+    emailPreview: async (_parent: any, args: { template: string; locale?: string }, context: any) => {
+      requirePermission(context.user, 'email:preview');
+      assertValidLocale(args.locale);
+      // WELCOME -> welcome, PASSWORD_RESET -> password-reset
+      const name = args.template.toLowerCase().replace(/_/g, '-') as EmailTemplateName;
+      const preview = await emailTemplateService.preview(name, args.locale);
+      return { template: args.template, ...preview };
+    },
+  },
+  Employee: {
+    // Existing clients read subjects as plain names; assignedSubjects exposes the Subject records
+    subjects: (employee: any) => (employee.subjects || []).map((subject: any) => subject.name),
+    assignedSubjects: (employee: any) => employee.subjects || [],
+    // Computed from attendance records, falling back to the stored figure when the window has none
+    attendance: async (employee: any, _args: any, context: any) =>
+      (await context.loaders.attendanceRates.load(employee.id)) ?? employee.attendance ?? 0,
+    compensationHistory: async (employee: any, _args: any, context: any) =>
+      (await compensationService.history(context.prisma, employee.id)).map(formatCompensationChange),
+    // Likewise department stays the name, with departmentDetails for the Department record
+    department: (employee: any) => employee.department?.name ?? null,
+    departmentDetails: (employee: any) => employee.department ?? null,
+    deletedAt: (employee: any) =>
+      employee.deletedAt instanceof Date ? Math.floor(employee.deletedAt.getTime() / 1000) : employee.deletedAt ?? null,
+  },
+  EmployeeConnection: {
+    // Counts the whole filtered list, ignoring the cursors
+    totalCount: (connection: any, _args: any, context: any) =>
+      context.prisma.employee.count({ where: connection.totalWhere }),
+  },
+  LeaveRequest: {
+    employee: async (request: any, _args: any, context: any) =>
+      formatEmployee(await context.loaders.employees.load(request.employeeId)),
+    approver: async (request: any, _args: any, context: any) =>
+      request.approverId ? formatEmployee(await context.loaders.employees.load(request.approverId)) : null,
+  },
+  Department: {
+    head: async (department: any, _args: any, context: any) => {
+      if (!department.headId) return null;
+      const head = await context.loaders.employees.load(department.headId);
+      return head && !head.deletedAt ? formatEmployee(head) : null;
+    },
+    parent: (department: any, _args: any, context: any) =>
+      department.parentId ? context.prisma.department.findUnique({ where: { id: department.parentId } }) : null,
+    children: (department: any, _args: any, context: any) =>
+      context.prisma.department.findMany({ where: { parentId: department.id }, orderBy: { name: 'asc' } }),
+    // `departments` precomputes these in one grouped query; other paths fall back to per-department queries
+    headcount: async (department: any, _args: any, context: any) => {
+      if (department.headcount !== undefined) return department.headcount;
+      return context.prisma.employee.count({ where: { departmentId: department.id, deletedAt: null } });
+    },
+    totalSalary: async (department: any, _args: any, context: any) => {
+      if (department.totalSalary !== undefined) return department.totalSalary;
+      const { _sum } = await context.prisma.employee.aggregate({
+        where: { departmentId: department.id, deletedAt: null },
+        _sum: { salary: true },
+      });
+      return _sum.salary ?? 0;
+    },
+  },
+  Subject: {
+    // Only employees the viewer can read are counted, like employeesBySubject
+    employeeCount: async (subject: any, _args: any, context: any) => {
+      const user = requirePermission(context.user, 'employee:read');
+      return context.prisma.employee.count({
+        where: { AND: [scopeWhere(user), { deletedAt: null }, { subjects: { some: { id: subject.id } } }] },
+      });
+    },
+  },
+  AuditEvent: {
+    changes: (event: any) =>
+      Object.entries(event.changes || {}).map(([field, change]: [string, any]) => ({
+        field,
+        from: change.from === null ? null : JSON.stringify(change.from),
+        to: change.to === null ? null : JSON.stringify(change.to),
+      })),
   },
   Mutation: {
     addEmployee: async (_parent: any, args: any, context: any) => {
-      if (!context.user) throw new AuthenticationError('Not authenticated');
-      if (context.user.role !== 'ADMIN') throw new ForbiddenError('Not authorized');
+      const user = requirePermission(context.user, 'employee:write');
+      let departmentId = await departmentIdForName(context.prisma, args.department, user);
+      if (getScope(user) === 'department' && departmentId === undefined) {
+        // Managers add people to their own department unless told otherwise
+        departmentId = user.departmentId;
+      }
+      assertCanWriteFields(user, {
+        // Creating a plain employee is not a role assignment
+        role: args.role === Role.EMPLOYEE ? undefined : args.role,
+        salary: args.salary,
+        departmentId,
+      });
       if (!args.name || args.name.trim() === "") {
         throw new Error("Name cannot be empty");
       }
@@ -107,166 +529,616 @@ export const resolvers = {
       }
       const { 
         name, age, class: className, subjects, attendance, role = Role.EMPLOYEE,
-        email, department, position, salary, avatar, phone, address, startDate, status = 'active'
+        email, position, salary, avatar, phone, address, startDate, status = 'active', locale
       } = args;
-      // Generate a random plain password
-      const plainPassword = Math.random().toString(36).slice(-8);
+      assertValidLocale(locale);
+      // The temporary password is never shown to anyone; the employee sets their own via the emailed link
+      const plainPassword = generateTemporaryPassword();
       const hashedPassword = await bcrypt.hash(plainPassword, 10);
-      console.log(`Generated password for ${email || name}:`, plainPassword);
       
-      const employee = await context.prisma.employee.create({
-        data: {
-          name,
-          email,
-          age,
-          department,
-          position,
-          salary,
-          class: className,
-          subjects: stringifySubjects(subjects),
-          attendance,
-          avatar,
-          phone,
-          address,
-          startDate: startDate ? new Date(startDate * 1000) : null,
-          status,
-          role,
-          password: hashedPassword,
-        },
+      const employee = await context.prisma.$transaction(async (tx: any) => {
+        const created = await tx.employee.create({
+          data: {
+            name,
+            email,
+            age,
+            departmentId,
+            position,
+            salary,
+            class: className,
+            subjects: { connectOrCreate: connectSubjects(subjects) },
+            attendance,
+            avatar,
+            phone,
+            address,
+            startDate: startDate ? new Date(startDate * 1000) : null,
+            status,
+            locale,
+            role,
+            password: hashedPassword,
+            mustChangePassword: true,
+          },
+          include: employeeInclude,
+        });
+        await auditService.record(tx, {
+          actorId: user.id,
+          action: 'EMPLOYEE_CREATED',
+          targetEmployeeId: created.id,
+          after: auditSnapshot(created),
+          requestId: context.requestId,
+        });
+        return created;
       });
+      OptimizedQueryBuilder.invalidateEmployee(employee);
 
-      // Send email with credentials if email is provided
-      console.log(email)
-      if (email) {
-        try {
-          const emailSent = await emailService.sendPasswordEmail(name, email, plainPassword);
-          if (emailSent) {
-            console.log(`Password email sent successfully to ${email}`);
-          } else {
-            console.error(`Failed to send password email to ${email}`);
+      // Send a set-password link if email is provided
+      await sendSetupEmail(context.prisma, employee);
+
+      const added = formatEmployee(employee);
+      await publishEmployeeEvent(EMPLOYEE_ADDED, added);
+      return added;
+    },
+    // Creates every valid row of the CSV in one transaction and reports the rest row by row.
+    // With dryRun nothing is written and no emails are sent.
+    importEmployees: async (_parent: any, { csv, dryRun = false }: { csv: string; dryRun?: boolean }, context: any) => {
+      const user = requirePermission(context.user, 'employee:write');
+      const { employees: parsed, errors, totalRows } = parseEmployeeCsv(csv);
+
+      const [existingEmployees, existingDepartments] = await Promise.all([
+        // Archived employees keep their email, so they count as taken too
+        context.prisma.employee.findMany({
+          where: { email: { in: parsed.map((row) => row.email) } },
+          select: { email: true },
+        }),
+        context.prisma.department.findMany({
+          where: { name: { in: parsed.flatMap((row) => (row.department ? [row.department] : [])) } },
+        }),
+      ]);
+      const takenEmails = new Set(existingEmployees.map((e: any) => e.email.toLowerCase()));
+      const departmentIds = new Map<string, number>(existingDepartments.map((d: any) => [d.name.toLowerCase(), d.id]));
+
+      const valid = parsed.filter((row) => {
+        const fail = (field: string | null, message: string) => {
+          errors.push({ row: row.row, field, message });
+          return false;
+        };
+        if (takenEmails.has(row.email)) return fail('email', 'Email already belongs to an employee');
+        let departmentId: number | null | undefined;
+        if (row.department) {
+          departmentId = departmentIds.get(row.department.toLowerCase());
+          if (departmentId === undefined && !hasPermission(user, 'department:write')) {
+            return fail('department', `Unknown department "${row.department}"`);
           }
-        } catch (error) {
-          console.error('Error sending password email:', error);
-          // Don't throw error to avoid breaking the employee creation
+        } else if (getScope(user) === 'department') {
+          departmentId = user.departmentId;
         }
-      } else {
-        console.log(`No email provided for ${name}, skipping email notification`);
+        try {
+          // Departments that will be created are left undefined; only department:write holders get here with one
+          assertCanWriteFields(user, {
+            role: row.role === undefined || row.role === Role.EMPLOYEE ? undefined : row.role,
+            salary: row.salary,
+            departmentId,
+          });
+        } catch (error: any) {
+          return fail(null, error.message);
+        }
+        return true;
+      });
+      errors.sort((a, b) => a.row - b.row);
+
+      const result = { dryRun, totalRows, validRows: valid.length, importedCount: 0, errors, employees: [] as any[] };
+      if (dryRun || valid.length === 0) return result;
+
+      // Hash outside the transaction so it is not held open by bcrypt
+      const passwords = await Promise.all(valid.map(() => bcrypt.hash(generateTemporaryPassword(), 10)));
+      const created = await context.prisma.$transaction(async (tx: any) => {
+        const employees = [];
+        for (const [i, row] of valid.entries()) {
+          const departmentId = row.department
+            ? await departmentIdForName(tx, row.department, user)
+            : getScope(user) === 'department' ? user.departmentId : null;
+          const employee = await tx.employee.create({
+            data: {
+              name: row.name,
+              email: row.email,
+              age: row.age,
+              departmentId,
+              position: row.position,
+              salary: row.salary,
+              class: row.class,
+              subjects: { connectOrCreate: connectSubjects(row.subjects) },
+              attendance: row.attendance,
+              avatar: row.avatar,
+              phone: row.phone,
+              address: row.address,
+              startDate: row.startDate ?? null,
+              status: row.status,
+              role: row.role ?? Role.EMPLOYEE,
+              password: passwords[i],
+              mustChangePassword: true,
+            },
+            include: employeeInclude,
+          });
+          await auditService.record(tx, {
+            actorId: user.id,
+            action: 'EMPLOYEE_CREATED',
+            targetEmployeeId: employee.id,
+            after: auditSnapshot(employee),
+            requestId: context.requestId,
+          });
+          employees.push(employee);
+        }
+        return employees;
+      }, { timeout: 60000 });
+      OptimizedQueryBuilder.invalidateEmployee(...created);
+
+      for (const employee of created) {
+        await sendSetupEmail(context.prisma, employee);
       }
 
-      return { 
-        ...employee, 
-        subjects,
-        startDate: employee.startDate ? Math.floor(employee.startDate.getTime() / 1000) : null
-      };
+      result.importedCount = created.length;
+      result.employees = created.map(formatEmployee);
+      for (const employee of result.employees) await publishEmployeeEvent(EMPLOYEE_ADDED, employee);
+      return result;
     },
     updateEmployee: async (_parent: any, args: any, context: any) => {
-      if (!context.user) throw new AuthenticationError('Not authenticated');
-      if (context.user.role !== 'ADMIN') throw new ForbiddenError('Not authorized');
+      const user = requirePermission(context.user, 'employee:write');
       const { 
-        id, subjects, startDate, ...rest 
+        id, subjects, startDate, department, ...rest 
       } = args;
+      const existing = await context.prisma.employee.findFirst({
+        where: { id: Number(id), deletedAt: null },
+        include: employeeInclude,
+      });
+      if (!existing) throw new Error('Employee not found');
+      assertCanAccess(user, 'employee:write', existing);
+      const departmentId = await departmentIdForName(context.prisma, department, user);
+      assertCanWriteFields(user, { ...rest, departmentId });
+      assertValidLocale(rest.locale);
       const data: any = { ...rest };
-      if (subjects) data.subjects = stringifySubjects(subjects);
+      if (departmentId !== undefined) data.departmentId = departmentId;
+      if (subjects) data.subjects = { set: [], connectOrCreate: connectSubjects(subjects) };
       if (startDate) data.startDate = new Date(startDate * 1000);
-      const employee = await context.prisma.employee.update({
+      const employee = await context.prisma.$transaction(async (tx: any) => {
+        const updated = await tx.employee.update({
+          where: { id: Number(id) },
+          data,
+          include: employeeInclude,
+        });
+        await auditService.record(tx, {
+          actorId: user.id,
+          action: 'EMPLOYEE_UPDATED',
+          targetEmployeeId: updated.id,
+          before: auditSnapshot(existing),
+          after: auditSnapshot(updated),
+          requestId: context.requestId,
+        });
+        // Direct edits of pay or title still land in the compensation history
+        await compensationService.recordApplied(tx, existing, updated, user.id);
+        return updated;
+      });
+      OptimizedQueryBuilder.invalidateEmployee(existing, employee);
+      context.loaders.employees.clear(employee.id);
+      if (employee.status !== 'active') {
+        // Deactivated employees are logged out everywhere immediately
+        await sessionService.revokeAllForEmployee(context.prisma, employee.id);
+      }
+      if (employee.status !== existing.status && employee.email) {
+        const sent = await emailService.sendStatusChangeEmail(employee, existing.status, employee.status);
+        if (!sent) console.error(`Failed to send status change email to ${employee.email}`);
+      }
+      const updated = formatEmployee(employee);
+      await publishEmployeeEvent(EMPLOYEE_UPDATED, updated);
+      return updated;
+    },
+    checkIn: async (_parent: any, args: { remote?: boolean; note?: string }, context: any) => {
+      if (!context.user) throw new AuthenticationError('Not authenticated');
+      const record = await attendanceService.checkIn(context.prisma, context.user.id, args);
+      return formatAttendanceRecord(record);
+    },
+    checkOut: async (_parent: any, _args: any, context: any) => {
+      if (!context.user) throw new AuthenticationError('Not authenticated');
+      const record = await attendanceService.checkOut(context.prisma, context.user.id);
+      return formatAttendanceRecord(record);
+    },
+    markAttendance: async (_parent: any, args: { date: string; records: any[] }, context: any) => {
+      const user = requirePermission(context.user, 'attendance:write');
+      const date = parseDay(args.date);
+      if (args.records.length > MAX_ATTENDANCE_MARKS) {
+        throw new UserInputError(`At most ${MAX_ATTENDANCE_MARKS} employees can be marked at once`);
+      }
+      const marks = args.records.map((record) => ({ ...record, employeeId: Number(record.employeeId) }));
+      const ids = [...new Set(marks.map((mark) => mark.employeeId))];
+      if (ids.length !== marks.length) throw new UserInputError('Each employee can only be marked once per call');
+      const employees = await context.prisma.employee.findMany({ where: { id: { in: ids }, deletedAt: null } });
+      if (employees.length !== ids.length) throw new UserInputError('Employee not found');
+      for (const employee of employees) assertCanAccess(user, 'attendance:write', employee);
+      const records = await attendanceService.mark(context.prisma, date, marks, user.id);
+      return records.map(formatAttendanceRecord);
+    },
+    requestLeave: async (_parent: any, args: any, context: any) => {
+      if (!context.user) throw new AuthenticationError('Not authenticated');
+      const request = await leaveService.request(context.prisma, context.user.id, {
+        type: args.type,
+        startDate: parseDay(args.startDate, 'startDate'),
+        endDate: parseDay(args.endDate, 'endDate'),
+        reason: args.reason,
+      });
+      return formatLeaveRequest(request);
+    },
+    approveLeave: (_parent: any, args: { id: string; note?: string }, context: any) =>
+      decideLeave(context, args, 'APPROVED'),
+    rejectLeave: (_parent: any, args: { id: string; note?: string }, context: any) =>
+      decideLeave(context, args, 'REJECTED'),
+    cancelLeave: async (_parent: any, { id }: { id: string }, context: any) => {
+      if (!context.user) throw new AuthenticationError('Not authenticated');
+      const request = await context.prisma.leaveRequest.findUnique({ where: { id: Number(id) }, include: { employee: true } });
+      if (!request) throw new Error('Leave request not found');
+      // Employees cancel their own leave; approvers can cancel leave they could have decided
+      if (request.employeeId !== context.user.id) assertCanAccess(context.user, 'leave:approve', request.employee);
+      const cancelled = await leaveService.cancel(context.prisma, request, context.user.id);
+      return formatLeaveRequest(cancelled);
+    },
+    setLeaveAllowance: async (_parent: any, args: any, context: any) => {
+      requirePermission(context.user, 'leave:manage');
+      const employee = await context.prisma.employee.findFirst({ where: { id: Number(args.employeeId), deletedAt: null } });
+      if (!employee) throw new Error('Employee not found');
+      return leaveService.setAllowance(context.prisma, employee.id, args.year, args.type, args.days);
+    },
+    recordCompensationChange: async (_parent: any, args: any, context: any) => {
+      const employee = await context.prisma.employee.findFirst({ where: { id: Number(args.employeeId), deletedAt: null } });
+      if (!employee) throw new Error('Employee not found');
+      assertCanAccess(context.user, 'salary:write', employee);
+      const change = await compensationService.record(context.prisma, {
+        employeeId: employee.id,
+        effectiveDate: parseDay(args.effectiveDate, 'effectiveDate'),
+        salary: args.salary,
+        position: args.position,
+        reason: args.reason,
+        recordedBy: context.user.id,
+        requestId: context.requestId,
+      });
+      return formatCompensationChange(change);
+    },
+    cancelCompensationChange: async (_parent: any, { id }: { id: string }, context: any) => {
+      const change = await context.prisma.compensationChange.findUnique({
         where: { id: Number(id) },
-        data,
+        include: { employee: true },
       });
-      return { 
-        ...employee, 
-        subjects: subjects || parseSubjects(employee.subjects),
-        startDate: employee.startDate ? Math.floor(employee.startDate.getTime() / 1000) : null
-      };
+      if (!change) return false;
+      assertCanAccess(context.user, 'salary:write', change.employee);
+      return compensationService.cancel(context.prisma, change.id);
+    },
+    createDepartment: async (_parent: any, args: any, context: any) => {
+      requirePermission(context.user, 'department:write');
+      const name = (args.name || '').trim();
+      if (name === '') throw new UserInputError('Department name cannot be empty');
+      if (await context.prisma.department.findUnique({ where: { name } })) {
+        throw new UserInputError('A department with that name already exists');
+      }
+      const headId = args.headId ? Number(args.headId) : null;
+      const parentId = args.parentId ? Number(args.parentId) : null;
+      await assertValidDepartmentHead(context.prisma, headId);
+      if (parentId !== null && !(await context.prisma.department.findUnique({ where: { id: parentId } }))) {
+        throw new UserInputError('Parent department not found');
+      }
+      return context.prisma.department.create({
+        data: { name, headId, parentId, budget: args.budget ?? null },
+      });
+    },
+    updateDepartment: async (_parent: any, args: any, context: any) => {
+      requirePermission(context.user, 'department:write');
+      const id = Number(args.id);
+      const department = await context.prisma.department.findUnique({ where: { id } });
+      if (!department) throw new Error('Department not found');
+      const data: any = {};
+      if (args.name !== undefined) {
+        const name = (args.name || '').trim();
+        if (name === '') throw new UserInputError('Department name cannot be empty');
+        const clash = await context.prisma.department.findUnique({ where: { name } });
+        if (clash && clash.id !== id) throw new UserInputError('A department with that name already exists');
+        data.name = name;
+      }
+      if (args.headId !== undefined) {
+        data.headId = args.headId ? Number(args.headId) : null;
+        await assertValidDepartmentHead(context.prisma, data.headId);
+      }
+      if (args.parentId !== undefined) {
+        data.parentId = args.parentId ? Number(args.parentId) : null;
+        await assertNoDepartmentCycle(context.prisma, id, data.parentId);
+      }
+      if (args.budget !== undefined) data.budget = args.budget;
+      const updated = await context.prisma.department.update({ where: { id }, data });
+      // Cached employees carry the department, and a rename changes which filters match its members
+      OptimizedQueryBuilder.clearCache('employee');
+      return updated;
+    },
+    // Members and child departments are detached, not deleted
+    deleteDepartment: async (_parent: any, { id }: { id: string }, context: any) => {
+      requirePermission(context.user, 'department:write');
+      const { count } = await context.prisma.department.deleteMany({ where: { id: Number(id) } });
+      if (count > 0) OptimizedQueryBuilder.clearCache('employee');
+      return count > 0;
+    },
+    createSubject: async (_parent: any, { name }: { name: string }, context: any) => {
+      requirePermission(context.user, 'subject:write');
+      const trimmed = name.trim();
+      if (trimmed === '') throw new UserInputError('Subject name cannot be empty');
+      const existing = await context.prisma.subject.findUnique({ where: { name: trimmed } });
+      if (existing) throw new UserInputError('A subject with that name already exists');
+      return context.prisma.subject.create({ data: { name: trimmed } });
+    },
+    // Renaming a subject renames it for every employee that has it
+    updateSubject: async (_parent: any, { id, name }: { id: string, name: string }, context: any) => {
+      requirePermission(context.user, 'subject:write');
+      const trimmed = name.trim();
+      if (trimmed === '') throw new UserInputError('Subject name cannot be empty');
+      const existing = await context.prisma.subject.findUnique({ where: { name: trimmed } });
+      if (existing && existing.id !== Number(id)) throw new UserInputError('A subject with that name already exists');
+      const subject = await context.prisma.subject.findUnique({ where: { id: Number(id) } });
+      if (!subject) throw new Error('Subject not found');
+      const updated = await context.prisma.subject.update({ where: { id: subject.id }, data: { name: trimmed } });
+      OptimizedQueryBuilder.clearCache('employee');
+      return updated;
+    },
+    deleteSubject: async (_parent: any, { id }: { id: string }, context: any) => {
+      requirePermission(context.user, 'subject:write');
+      const { count } = await context.prisma.subject.deleteMany({ where: { id: Number(id) } });
+      if (count > 0) OptimizedQueryBuilder.clearCache('employee');
+      return count > 0;
     },
+    // Archives rather than deletes; see purgeArchivedEmployees for permanent removal
     deleteEmployee: async (_parent: any, { id }: { id: number }, context: any) => {
-      if (!context.user) throw new AuthenticationError('Not authenticated');
-      if (context.user.role !== 'ADMIN') throw new ForbiddenError('Not authorized');
-      await context.prisma.employee.delete({ where: { id } });
+      const user = requirePermission(context.user, 'employee:delete');
+      const existing = await context.prisma.employee.findFirst({ where: { id, deletedAt: null }, include: employeeInclude });
+      if (!existing) throw new Error('Employee not found');
+      const archived = await context.prisma.$transaction(async (tx: any) => {
+        const archived = await tx.employee.update({
+          where: { id },
+          data: { deletedAt: new Date(), deletedBy: user.id },
+          include: employeeInclude,
+        });
+        // Outstanding set-password and reset links must not revive an archived account
+        await tx.passwordResetToken.deleteMany({ where: { employeeId: id } });
+        await auditService.record(tx, {
+          actorId: user.id,
+          action: 'EMPLOYEE_ARCHIVED',
+          targetEmployeeId: archived.id,
+          before: auditSnapshot(existing),
+          after: auditSnapshot(archived),
+          requestId: context.requestId,
+        });
+        return archived;
+      });
+      OptimizedQueryBuilder.invalidateEmployee(existing, archived);
+      context.loaders.employees.clear(archived.id);
+      await sessionService.revokeAllForEmployee(context.prisma, id);
+      await publishEmployeeEvent(EMPLOYEE_DELETED, formatEmployee(archived));
       return true;
     },
+    restoreEmployee: async (_parent: any, { id }: { id: string }, context: any) => {
+      const user = requirePermission(context.user, 'employee:delete');
+      const existing = await context.prisma.employee.findFirst({
+        where: { id: Number(id), deletedAt: { not: null } },
+        include: employeeInclude,
+      });
+      if (!existing) throw new Error('Archived employee not found');
+      const employee = await context.prisma.$transaction(async (tx: any) => {
+        const restored = await tx.employee.update({
+          where: { id: existing.id },
+          data: { deletedAt: null, deletedBy: null },
+          include: employeeInclude,
+        });
+        await auditService.record(tx, {
+          actorId: user.id,
+          action: 'EMPLOYEE_RESTORED',
+          targetEmployeeId: restored.id,
+          before: auditSnapshot(existing),
+          after: auditSnapshot(restored),
+          requestId: context.requestId,
+        });
+        return restored;
+      });
+      OptimizedQueryBuilder.invalidateEmployee(existing, employee);
+      context.loaders.employees.clear(employee.id);
+      const restored = formatEmployee(employee);
+      // A restored employee reappears in lists, so subscribers see it as added
+      await publishEmployeeEvent(EMPLOYEE_ADDED, restored);
+      return restored;
+    },
+    purgeArchivedEmployees: async (_parent: any, { ids }: { ids?: string[] }, context: any) => {
+      const user = requirePermission(context.user, 'employee:purge');
+      const cutoff = new Date(Date.now() - ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const expired = await context.prisma.employee.findMany({
+        where: {
+          deletedAt: { not: null, lte: cutoff },
+          ...(ids ? { id: { in: ids.map(Number) } } : {}),
+        },
+        include: employeeInclude,
+      });
+      await context.prisma.$transaction(async (tx: any) => {
+        for (const employee of expired) {
+          await tx.employee.delete({ where: { id: employee.id } });
+          await auditService.record(tx, {
+            actorId: user.id,
+            action: 'EMPLOYEE_DELETED',
+            targetEmployeeId: employee.id,
+            before: auditSnapshot(employee),
+            requestId: context.requestId,
+          });
+        }
+      });
+      OptimizedQueryBuilder.invalidateEmployee(...expired);
+      return expired.length;
+    },
     login: async (_parent: any, { email, password }: { email: string, password: string }, context: any) => {
-      const employee = await context.prisma.employee.findUnique({ where: { email } });
-      if (!employee) throw new AuthenticationError('Invalid credentials');
-      const valid = await bcrypt.compare(password, employee.password);
-      if (!valid) throw new AuthenticationError('Invalid credentials');
-      const token = jwt.sign({ id: employee.id, role: employee.role }, process.env.JWT_SECRET || 'secret', { expiresIn: '1d' });
+      await rateLimiter.consume('login', RATE_LIMITS.login, clientIp(context.req));
+      await rateLimiter.assertLoginAllowed(email);
+      const employee = await context.loaders.employees.loadByEmail(email);
+      const valid = !!employee && !employee.deletedAt && (await bcrypt.compare(password, employee.password));
+      if (!valid) {
+        await rateLimiter.recordLoginFailure(email);
+        throw new AuthenticationError('Invalid credentials');
+      }
+      await rateLimiter.clearLoginFailures(email);
+      if (employee.status !== 'active') throw new AuthenticationError('Account is not active');
+      const tokens = await sessionService.createSession(context.prisma, employee);
       return { 
-        token, 
-        employee: { 
-          ...employee, 
-          subjects: parseSubjects(employee.subjects),
-          startDate: employee.startDate ? Math.floor(employee.startDate.getTime() / 1000) : null
-        } 
+        ...tokens,
+        // Field-level rules on LoginPayload.employee apply as the employee who just logged in
+        employee: withPayloadViewer(formatEmployee(employee), { id: employee.id, role: employee.role, departmentId: employee.departmentId }),
+        mustChangePassword: employee.mustChangePassword,
       };
     },
+    refreshToken: async (_parent: any, { refreshToken }: { refreshToken: string }, context: any) => {
+      try {
+        const { employee, ...tokens } = await sessionService.rotate(context.prisma, refreshToken);
+        return {
+          ...tokens,
+          employee: withPayloadViewer(formatEmployee(employee), { id: employee.id, role: employee.role, departmentId: employee.departmentId }),
+          mustChangePassword: employee.mustChangePassword,
+        };
+      } catch (error) {
+        if (error instanceof InvalidRefreshTokenError) throw new AuthenticationError(error.message);
+        throw error;
+      }
+    },
+    logout: async (_parent: any, _args: any, context: any) => {
+      if (!context.user?.sid) throw new AuthenticationError('Not authenticated');
+      await sessionService.revokeSession(context.prisma, context.user.sid);
+      return true;
+    },
+    revokeSessions: async (_parent: any, { employeeId }: { employeeId: string }, context: any) => {
+      const user = requirePermission(context.user, 'session:revoke');
+      const employee = await context.prisma.employee.findUnique({ where: { id: Number(employeeId) } });
+      if (!employee) throw new Error('Employee not found');
+      assertCanAccess(user, 'session:revoke', employee);
+      return sessionService.revokeAllForEmployee(context.prisma, Number(employeeId));
+    },
+    unlockAccount: async (_parent: any, { employeeId }: { employeeId: string }, context: any) => {
+      const user = requirePermission(context.user, 'account:unlock');
+      const employee = await context.prisma.employee.findUnique({ where: { id: Number(employeeId) } });
+      if (!employee) throw new Error('Employee not found');
+      if (employee.email) await rateLimiter.clearLoginFailures(employee.email);
+      await auditService.record(context.prisma, {
+        actorId: user.id,
+        action: 'ACCOUNT_UNLOCKED',
+        targetEmployeeId: employee.id,
+        requestId: context.requestId,
+      });
+      return true;
+    },
+    changePassword: async (
+      _parent: any,
+      { currentPassword, newPassword }: { currentPassword: string, newPassword: string },
+      context: any
+    ) => {
+      if (!context.user) throw new AuthenticationError('Not authenticated');
+      const employee = await context.prisma.employee.findUnique({ where: { id: context.user.id } });
+      if (!employee) throw new AuthenticationError('Not authenticated');
+      const valid = await bcrypt.compare(currentPassword, employee.password);
+      if (!valid) throw new AuthenticationError('Current password is incorrect');
+      if (currentPassword === newPassword) {
+        throw new UserInputError('New password must be different from the current password');
+      }
+      const policyErrors = validatePassword(newPassword);
+      if (policyErrors.length > 0) {
+        throw new UserInputError('Password does not meet the password policy', { policyErrors });
+      }
+      const hashedPassword = await bcrypt.hash(newPassword, 10);
+      await context.prisma.employee.update({
+        where: { id: employee.id },
+        data: { password: hashedPassword, mustChangePassword: false },
+      });
+      OptimizedQueryBuilder.invalidateEmployee(employee);
+      // Sign out every other device that may have used the old password
+      await sessionService.revokeAllForEmployee(context.prisma, employee.id, context.user.sid);
+      await auditService.record(context.prisma, {
+        actorId: employee.id,
+        action: 'PASSWORD_CHANGED',
+        targetEmployeeId: employee.id,
+        requestId: context.requestId,
+      });
+      return true;
+    },
     register: async (_parent: any, args: any, context: any) => {
+      await rateLimiter.consume('register', RATE_LIMITS.register, clientIp(context.req));
       const { 
-        name, age, class: className, subjects, attendance, password, role = 'EMPLOYEE',
-        email, department, position, salary, avatar, phone, address, startDate, status = 'active'
+        name, age, class: className, subjects, attendance, password, role,
+        email, position, salary, avatar, phone, address, startDate, status = 'active', locale
       } = args;
+      assertCanRegisterWith(context.user, { role, salary });
+      assertValidLocale(locale);
+      const policyErrors = validatePassword(password);
+      if (policyErrors.length > 0) {
+        throw new UserInputError('Password does not meet the password policy', { policyErrors });
+      }
+      const departmentId = await departmentIdForName(context.prisma, args.department, null);
       const hashedPassword = await bcrypt.hash(password, 10);
       const employee = await context.prisma.employee.create({
         data: {
           name,
           email,
           age,
-          department,
+          departmentId,
           position,
           salary,
           class: className,
-          subjects: stringifySubjects(subjects),
+          subjects: { connectOrCreate: connectSubjects(subjects) },
           attendance,
           avatar,
           phone,
           address,
           startDate: startDate ? new Date(startDate * 1000) : null,
           status,
-          role,
+          locale,
+          role: role ?? Role.EMPLOYEE,
           password: hashedPassword,
         },
+        include: employeeInclude,
       });
-      return { 
-        ...employee, 
-        subjects,
-        startDate: employee.startDate ? Math.floor(employee.startDate.getTime() / 1000) : null
-      };
+      OptimizedQueryBuilder.invalidateEmployee(employee);
+      await auditService.record(context.prisma, {
+        actorId: context.user?.id,
+        action: 'EMPLOYEE_CREATED',
+        targetEmployeeId: employee.id,
+        after: auditSnapshot(employee),
+        requestId: context.requestId,
+      });
+      const registered = formatEmployee(employee);
+      await publishEmployeeEvent(EMPLOYEE_ADDED, registered);
+      return registered;
     },
     resendPasswordEmail: async (_parent: any, { employeeId }: { employeeId: string }, context: any) => {
-      if (!context.user) throw new AuthenticationError('Not authenticated');
-      if (context.user.role !== 'ADMIN') throw new ForbiddenError('Not authorized');
+      const user = requirePermission(context.user, 'email:send');
+      await rateLimiter.consume('password-email', RATE_LIMITS.passwordEmail, `user:${user.id}`);
       
-      const employee = await context.prisma.employee.findUnique({ 
-        where: { id: parseInt(employeeId) } 
+      const employee = await context.prisma.employee.findFirst({ 
+        where: { id: parseInt(employeeId), deletedAt: null } 
       });
       
       if (!employee) {
         throw new Error('Employee not found');
       }
+      assertCanAccess(user, 'email:send', employee);
       
       if (!employee.email) {
         throw new Error('Employee does not have an email address');
       }
       
-      // Generate a new temporary password
-      const newPlainPassword = Math.random().toString(36).slice(-8);
-      const newHashedPassword = await bcrypt.hash(newPlainPassword, 10);
-      
-      // Update the employee's password
-      await context.prisma.employee.update({
-        where: { id: parseInt(employeeId) },
-        data: { password: newHashedPassword },
-      });
-      
-      // Send the new password via email
+      // Send a single-use reset link; the current password keeps working until it is used
       try {
-        const emailSent = await emailService.sendPasswordEmail(
-          employee.name, 
-          employee.email, 
-          newPlainPassword
-        );
+        const { link, expiresAt } = await passwordResetService.issueToken(context.prisma, employee.id);
+        const emailSent = await emailService.sendPasswordResetEmail(employee, link, expiresAt);
         
         if (emailSent) {
           console.log(`Password reset email sent successfully to ${employee.email}`);
+          await auditService.record(context.prisma, {
+            actorId: user.id,
+            action: 'PASSWORD_EMAIL_SENT',
+            targetEmployeeId: employee.id,
+            requestId: context.requestId,
+          });
           return true;
         } else {
           console.error(`Failed to send password reset email to ${employee.email}`);
@@ -277,5 +1149,52 @@ export const resolvers = {
         return false;
       }
     },
+    requestPasswordReset: async (_parent: any, { email }: { email: string }, context: any) => {
+      await rateLimiter.consume('password-email', RATE_LIMITS.passwordEmail, `ip:${clientIp(context.req)}`);
+      // Always report success so the response cannot be used to discover registered emails
+      const employee = await context.prisma.employee.findFirst({ where: { email, deletedAt: null } });
+      if (!employee || !employee.email) return true;
+
+      try {
+        const { link, expiresAt } = await passwordResetService.issueToken(context.prisma, employee.id);
+        const emailSent = await emailService.sendPasswordResetEmail(employee, link, expiresAt);
+        if (!emailSent) {
+          console.error(`Failed to send password reset email to ${employee.email}`);
+        }
+      } catch (error) {
+        console.error('Error sending password reset email:', error);
+      }
+      return true;
+    },
+    resetPassword: async (_parent: any, { token, newPassword }: { token: string, newPassword: string }, context: any) => {
+      const policyErrors = validatePassword(newPassword);
+      if (policyErrors.length > 0) {
+        throw new UserInputError('Password does not meet the password policy', { policyErrors });
+      }
+      const employeeId = await passwordResetService.consumeToken(context.prisma, token);
+      if (!employeeId) throw new UserInputError('Reset link is invalid or has expired');
+
+      const hashedPassword = await bcrypt.hash(newPassword, 10);
+      const { count } = await context.prisma.employee.updateMany({
+        where: { id: employeeId, deletedAt: null },
+        data: { password: hashedPassword, mustChangePassword: false },
+      });
+      if (count === 0) throw new UserInputError('Reset link is invalid or has expired');
+      OptimizedQueryBuilder.invalidateEmployee(
+        await context.prisma.employee.findUnique({ where: { id: employeeId }, include: employeeInclude })
+      );
+      await sessionService.revokeAllForEmployee(context.prisma, employeeId);
+      await auditService.record(context.prisma, {
+        action: 'PASSWORD_CHANGED',
+        targetEmployeeId: employeeId,
+        requestId: context.requestId,
+      });
+      return true;
+    },
+  },
+  Subscription: {
+    employeeAdded: employeeSubscription(EMPLOYEE_ADDED),
+    employeeUpdated: employeeSubscription(EMPLOYEE_UPDATED, (employee, args) => !args.id || Number(args.id) === employee.id),
+    employeeDeleted: employeeSubscription(EMPLOYEE_DELETED),
   },
-}; 
\ No newline at end of file
+};
\ No newline at end of file
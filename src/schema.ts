@@ -3,26 +3,159 @@ import { gql } from 'apollo-server-express';
 export const typeDefs = gql`
   enum Role {
     ADMIN
+    MANAGER
     EMPLOYEE
   }
 
+  # Restricted fields resolve to null unless the viewer holds the named permission
+  # (see permissions.ts) for the employee being viewed
+  directive @auth(requires: String!) on FIELD_DEFINITION
+
   type Employee {
     id: ID!
     name: String!
     email: String
-    age: Int
+    age: Int @auth(requires: "personal:read")
     department: String
+    departmentId: ID
+    departmentDetails: Department
     position: String
-    salary: Float
+    salary: Float @auth(requires: "salary:read")
     class: String!
     subjects: [String!]!
+    assignedSubjects: [Subject!]!
+    # Percentage of recorded days attended over the last ATTENDANCE_WINDOW_DAYS
     attendance: Float!
     avatar: String
-    phone: String
-    address: String
+    phone: String @auth(requires: "personal:read")
+    address: String @auth(requires: "personal:read")
     startDate: Int
     status: String!
+    # Language for emails, e.g. "de" or "pt-BR"; null uses EMAIL_DEFAULT_LOCALE
+    locale: String
     role: Role!
+    mustChangePassword: Boolean!
+    deletedAt: Int
+    deletedBy: ID
+    # Newest first, including pending future-dated changes
+    compensationHistory: [CompensationChange!] @auth(requires: "salary:read")
+  }
+
+  # On a pending change (appliedAt null) old values are filled in when it is applied,
+  # and a null new value means that field is not changing
+  type CompensationChange {
+    id: ID!
+    employeeId: ID!
+    effectiveDate: String!
+    oldSalary: Float
+    newSalary: Float
+    oldPosition: String
+    newPosition: String
+    reason: String
+    recordedBy: ID
+    appliedAt: Int
+    createdAt: Int!
+  }
+
+  type Department {
+    id: ID!
+    name: String!
+    head: Employee
+    parent: Department
+    children: [Department!]!
+    budget: Float @auth(requires: "salary:read")
+    # Non-archived members only
+    headcount: Int!
+    totalSalary: Float @auth(requires: "salary:read")
+  }
+
+  type Subject {
+    id: ID!
+    name: String!
+    # Number of non-archived employees with this subject
+    employeeCount: Int!
+  }
+
+  input StringFilter {
+    equals: String
+    in: [String!]
+    contains: String
+  }
+
+  input IntRange {
+    gt: Int
+    gte: Int
+    lt: Int
+    lte: Int
+  }
+
+  input FloatRange {
+    gt: Float
+    gte: Float
+    lt: Float
+    lte: Float
+  }
+
+  # Conditions on one filter are combined with AND. Dates are Unix seconds.
+  input EmployeeFilter {
+    name: StringFilter
+    email: StringFilter
+    class: StringFilter
+    department: StringFilter
+    position: StringFilter
+    salary: FloatRange
+    age: IntRange
+    attendance: FloatRange
+    startDate: IntRange
+    status: [String!]
+    role: [Role!]
+    AND: [EmployeeFilter!]
+    OR: [EmployeeFilter!]
+    NOT: EmployeeFilter
+  }
+
+  enum EmployeeSortField {
+    ID
+    NAME
+    EMAIL
+    CLASS
+    POSITION
+    STATUS
+    ATTENDANCE
+    AGE
+    SALARY
+    START_DATE
+    ROLE
+    DEPARTMENT
+  }
+
+  enum SortDirection {
+    ASC
+    DESC
+  }
+
+  input EmployeeOrderBy {
+    field: EmployeeSortField!
+    direction: SortDirection = ASC
+  }
+
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type EmployeeEdge {
+    cursor: String!
+    node: Employee!
+  }
+
+  type EmployeeConnection {
+    edges: [EmployeeEdge!]!
+    pageInfo: PageInfo!
+    # Only counted when selected
+    totalCount: Int!
   }
 
   type EmployeePage {
@@ -30,14 +163,205 @@ export const typeDefs = gql`
     totalCount: Int!
   }
 
+  enum AttendanceStatus {
+    PRESENT
+    ABSENT
+    LATE
+    REMOTE
+    ON_LEAVE
+  }
+
+  # Dates are calendar days in YYYY-MM-DD format
+  type AttendanceRecord {
+    id: ID!
+    employeeId: ID!
+    date: String!
+    status: AttendanceStatus!
+    checkInAt: Int
+    checkOutAt: Int
+    note: String
+    markedBy: ID
+  }
+
+  type AttendanceSummary {
+    present: Int!
+    absent: Int!
+    late: Int!
+    remote: Int!
+    onLeave: Int!
+    # Days counted towards the rate; leave is excluded
+    recordedDays: Int!
+    # Percentage of recorded days attended; null when nothing was recorded
+    rate: Float
+  }
+
+  type AttendanceReport {
+    employeeId: ID!
+    from: String!
+    to: String!
+    records: [AttendanceRecord!]!
+    summary: AttendanceSummary!
+  }
+
+  input AttendanceMarkInput {
+    employeeId: ID!
+    status: AttendanceStatus!
+    note: String
+  }
+
+  enum LeaveType {
+    ANNUAL
+    SICK
+    UNPAID
+    OTHER
+  }
+
+  enum LeaveStatus {
+    PENDING
+    APPROVED
+    REJECTED
+    CANCELLED
+  }
+
+  type LeaveRequest {
+    id: ID!
+    employeeId: ID!
+    employee: Employee
+    type: LeaveType!
+    startDate: String!
+    endDate: String!
+    # Working days (Monday to Friday) in the range
+    days: Int!
+    reason: String
+    status: LeaveStatus!
+    approverId: ID
+    # Whoever approved, rejected or cancelled the request
+    approver: Employee
+    decisionNote: String
+    decidedAt: Int
+    createdAt: Int!
+  }
+
+  # allowance and remaining are null for leave types without a limit
+  type LeaveBalance {
+    type: LeaveType!
+    year: Int!
+    allowance: Int
+    used: Int!
+    pending: Int!
+    remaining: Int
+  }
+
+  enum AuditAction {
+    EMPLOYEE_CREATED
+    EMPLOYEE_UPDATED
+    EMPLOYEE_ARCHIVED
+    EMPLOYEE_RESTORED
+    EMPLOYEE_DELETED
+    PASSWORD_EMAIL_SENT
+    PASSWORD_CHANGED
+    ACCOUNT_UNLOCKED
+  }
+
+  # from/to are JSON-encoded so any column type can be represented
+  type AuditFieldChange {
+    field: String!
+    from: String
+    to: String
+  }
+
+  type AuditEvent {
+    id: ID!
+    actorId: ID
+    action: AuditAction!
+    targetEmployeeId: ID
+    changes: [AuditFieldChange!]!
+    requestId: String
+    createdAt: Int!
+  }
+
+  type AuditEventPage {
+    events: [AuditEvent!]!
+    totalCount: Int!
+  }
+
+  # row is the CSV record number, counting the header as row 1
+  type EmployeeImportError {
+    row: Int!
+    field: String
+    message: String!
+  }
+
+  type EmployeeImportResult {
+    dryRun: Boolean!
+    # Non-blank data rows in the CSV
+    totalRows: Int!
+    validRows: Int!
+    importedCount: Int!
+    errors: [EmployeeImportError!]!
+    employees: [Employee!]!
+  }
+
+  enum EmailTemplate {
+    WELCOME
+    PASSWORD_RESET
+    STATUS_CHANGE
+    LEAVE_DECISION
+    NOTICE
+  }
+
+  type EmailPreview {
+    template: EmailTemplate!
+    # The locale the template was found in, which may be a fallback of the one requested
+    locale: String!
+    subject: String!
+    html: String!
+    text: String!
+  }
+
   type LoginPayload {
     token: String!
+    refreshToken: String!
+    expiresIn: Int!
     employee: Employee!
+    mustChangePassword: Boolean!
   }
 
   type Query {
-    employees(page: Int, pageSize: Int, sortBy: String, sortOrder: String, filter: String): EmployeePage!
-    employee(id: ID!): Employee
+    employees(
+      page: Int
+      pageSize: Int
+      sortBy: String @deprecated(reason: "Use orderBy")
+      sortOrder: String @deprecated(reason: "Use orderBy")
+      # Applied in order, with id as the final tiebreaker
+      orderBy: [EmployeeOrderBy!]
+      filter: String @deprecated(reason: "Use where")
+      where: EmployeeFilter
+      includeArchived: Boolean
+    ): EmployeePage!
+    # Relay-style cursor pagination; rows are ordered by orderBy and then id
+    employeesConnection(
+      first: Int
+      after: String
+      last: Int
+      before: String
+      filter: EmployeeFilter
+      orderBy: [EmployeeOrderBy!]
+      includeArchived: Boolean
+    ): EmployeeConnection!
+    employee(id: ID!, includeArchived: Boolean): Employee
+    departments: [Department!]!
+    department(id: ID!): Department
+    subjects: [Subject!]!
+    subject(id: ID!): Subject
+    employeesBySubject(subjectId: ID!, page: Int, pageSize: Int): EmployeePage!
+    attendanceReport(employeeId: ID!, from: String!, to: String!): AttendanceReport!
+    # Without employeeId, lists leave for every employee the caller can see
+    leaveRequests(employeeId: ID, status: LeaveStatus): [LeaveRequest!]!
+    leaveBalances(employeeId: ID!, year: Int): [LeaveBalance!]!
+    auditLog(employeeId: ID, actorId: ID, action: AuditAction, from: Int, to: Int, page: Int, pageSize: Int): AuditEventPage!
+    # Renders an email template with sample data (admin only); without locale the default is used
+    emailPreview(template: EmailTemplate!, locale: String): EmailPreview!
   }
 
   type Mutation {
@@ -50,16 +374,23 @@ export const typeDefs = gql`
       salary: Float
       class: String!
       subjects: [String!]!
-      attendance: Float!
+      attendance: Float @deprecated(reason: "Computed from attendance records")
       avatar: String
       phone: String
       address: String
       startDate: Int
       status: String
+      locale: String
       password: String!
       role: Role
     ): Employee!
     login(email: String!, password: String!): LoginPayload!
+    refreshToken(refreshToken: String!): LoginPayload!
+    logout: Boolean!
+    revokeSessions(employeeId: ID!): Int!
+    # Clears failed-login lockout for the employee's email (admin only)
+    unlockAccount(employeeId: ID!): Boolean!
+    changePassword(currentPassword: String!, newPassword: String!): Boolean!
     addEmployee(
       name: String!
       email: String
@@ -69,14 +400,18 @@ export const typeDefs = gql`
       salary: Float
       class: String!
       subjects: [String!]!
-      attendance: Float!
+      attendance: Float @deprecated(reason: "Computed from attendance records")
       avatar: String
       phone: String
       address: String
       startDate: Int
       status: String
+      locale: String
       role: Role
     ): Employee!
+    # CSV columns match the addEmployee arguments (name, email and class are required); subjects are
+    # separated by semicolons and startDate is an ISO date or Unix seconds
+    importEmployees(csv: String!, dryRun: Boolean): EmployeeImportResult!
     updateEmployee(
       id: ID!
       name: String
@@ -87,15 +422,60 @@ export const typeDefs = gql`
       salary: Float
       class: String
       subjects: [String!]
-      attendance: Float
+      attendance: Float @deprecated(reason: "Computed from attendance records")
       avatar: String
       phone: String
       address: String
       startDate: Int
       status: String
+      locale: String
       role: Role
     ): Employee!
+    # Records today's attendance for the logged-in employee; after ATTENDANCE_LATE_AFTER it counts as LATE
+    checkIn(remote: Boolean, note: String): AttendanceRecord!
+    checkOut: AttendanceRecord!
+    # Sets one day's status for several employees, replacing what was recorded
+    markAttendance(date: String!, records: [AttendanceMarkInput!]!): [AttendanceRecord!]!
+    requestLeave(type: LeaveType!, startDate: String!, endDate: String!, reason: String): LeaveRequest!
+    approveLeave(id: ID!, note: String): LeaveRequest!
+    rejectLeave(id: ID!, note: String): LeaveRequest!
+    # Pending leave, or approved leave that has not started yet
+    cancelLeave(id: ID!): LeaveRequest!
+    setLeaveAllowance(employeeId: ID!, year: Int!, type: LeaveType!, days: Int!): LeaveBalance!
+    # effectiveDate is YYYY-MM-DD; changes dated today or earlier apply immediately
+    recordCompensationChange(
+      employeeId: ID!
+      effectiveDate: String!
+      salary: Float
+      position: String
+      reason: String
+    ): CompensationChange!
+    cancelCompensationChange(id: ID!): Boolean!
+    createDepartment(name: String!, headId: ID, parentId: ID, budget: Float): Department!
+    updateDepartment(id: ID!, name: String, headId: ID, parentId: ID, budget: Float): Department!
+    deleteDepartment(id: ID!): Boolean!
+    createSubject(name: String!): Subject!
+    updateSubject(id: ID!, name: String!): Subject!
+    deleteSubject(id: ID!): Boolean!
+    # Archives the employee; archived records are hidden unless includeArchived is set
     deleteEmployee(id: Int!): Boolean!
+    restoreEmployee(id: ID!): Employee!
+    # Permanently removes archived employees past ARCHIVE_RETENTION_DAYS; returns how many were purged
+    purgeArchivedEmployees(ids: [ID!]): Int!
     resendPasswordEmail(employeeId: ID!): Boolean!
+    requestPasswordReset(email: String!): Boolean!
+    resetPassword(token: String!, newPassword: String!): Boolean!
+  }
+
+  # Served over WebSocket (graphql-ws) on the GraphQL path. Pass the access token as
+  # connectionParams.authorization ("Bearer <token>"). Events are limited to employees
+  # the subscriber can read.
+  type Subscription {
+    # Also sent when an archived employee is restored
+    employeeAdded: Employee!
+    # Omit id to receive updates for every visible employee
+    employeeUpdated(id: ID): Employee!
+    # Sent when an employee is archived
+    employeeDeleted: Employee!
   }
 `; 
\ No newline at end of file
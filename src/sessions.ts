@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Department, Employee, PrismaClient, Subject } from '@prisma/client';
+import { hashToken } from './passwordReset';
+
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900'); // 15 minutes
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+interface AuthUser {
+  id: number;
+  role: string;
+  departmentId: number | null;
+  sid: string;
+}
+
+interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+// Thrown when a refresh token is unknown, expired, revoked or has already been rotated
+class InvalidRefreshTokenError extends Error {
+  constructor() {
+    super('Invalid refresh token');
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+function jwtSecret(): string {
+  return process.env.JWT_SECRET || 'secret';
+}
+
+class SessionService {
+  async createSession(prisma: PrismaClient, employee: { id: number; role: string }): Promise<SessionTokens> {
+    const expiresAt = this.refreshExpiry();
+    const session = await prisma.session.create({
+      data: { employeeId: employee.id, expiresAt },
+    });
+    const refreshToken = await this.issueRefreshToken(prisma, session.id, expiresAt);
+
+    return {
+      token: this.signAccessToken({ id: employee.id, role: employee.role, sid: session.id }),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  // Exchanges a refresh token for a new token pair. Presenting an already-rotated
+  // token is treated as theft and revokes the whole session.
+  async rotate(prisma: PrismaClient, refreshToken: string): Promise<SessionTokens & { employee: Employee & { subjects: Subject[]; department: Department | null } }> {
+    const record = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { session: { include: { employee: { include: { subjects: true, department: true } } } } },
+    });
+    if (!record) throw new InvalidRefreshTokenError();
+
+    const { session } = record;
+    if (record.usedAt) {
+      await this.revokeSession(prisma, session.id);
+      throw new InvalidRefreshTokenError();
+    }
+    if (
+      session.revokedAt ||
+      record.expiresAt.getTime() < Date.now() ||
+      session.employee.status !== 'active' ||
+      session.employee.deletedAt
+    ) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count !== 1) {
+      await this.revokeSession(prisma, session.id);
+      throw new InvalidRefreshTokenError();
+    }
+
+    const expiresAt = this.refreshExpiry();
+    await prisma.session.update({ where: { id: session.id }, data: { expiresAt } });
+    const nextRefreshToken = await this.issueRefreshToken(prisma, session.id, expiresAt);
+
+    return {
+      token: this.signAccessToken({ id: session.employee.id, role: session.employee.role, sid: session.id }),
+      refreshToken: nextRefreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      employee: session.employee,
+    };
+  }
+
+  async revokeSession(prisma: PrismaClient, sessionId: string): Promise<void> {
+    // Prisma drops undefined filters, which would revoke every session
+    if (!sessionId) throw new Error('A session id is required');
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // Revokes every live session of an employee, optionally keeping the caller's own
+  async revokeAllForEmployee(prisma: PrismaClient, employeeId: number, exceptSessionId?: string): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+      where: {
+        employeeId,
+        revokedAt: null,
+        ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+      },
+      data: { revokedAt: new Date() },
+    });
+    return count;
+  }
+
+  // Resolves an Authorization header to the caller, or null when the token is
+  // invalid, its session was revoked or the employee is no longer active
+  async authenticate(prisma: PrismaClient, authorization?: string): Promise<AuthUser | null> {
+    if (!authorization || !authorization.startsWith('Bearer ')) return null;
+
+    let payload: any;
+    try {
+      payload = jwt.verify(authorization.split(' ')[1], jwtSecret());
+    } catch (e) {
+      return null;
+    }
+    if (!payload || typeof payload !== 'object' || !payload.sid) return null;
+
+    const session = await prisma.session.findUnique({
+      where: { id: payload.sid },
+      include: { employee: { select: { id: true, role: true, departmentId: true, status: true, deletedAt: true } } },
+    });
+    if (!session || session.revokedAt || session.expiresAt.getTime() < Date.now()) return null;
+    if (session.employee.status !== 'active' || session.employee.deletedAt) return null;
+
+    // Use the stored role and department so changes apply without waiting for the token to expire
+    const { id, role, departmentId } = session.employee;
+    return { id, role, departmentId, sid: session.id };
+  }
+
+  private signAccessToken(user: { id: number; role: string; sid: string }): string {
+    return jwt.sign(user, jwtSecret(), { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+  }
+
+  private async issueRefreshToken(prisma: PrismaClient, sessionId: string, expiresAt: Date): Promise<string> {
+    const token = crypto.randomBytes(48).toString('hex');
+    await prisma.refreshToken.create({
+      data: { sessionId, tokenHash: hashToken(token), expiresAt },
+    });
+    return token;
+  }
+
+  private refreshExpiry(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
+
+export const sessionService = new SessionService();
+
+export {
+  AuthUser,
+  SessionTokens,
+  InvalidRefreshTokenError,
+};
@@ -0,0 +1,79 @@
+import jwt from 'jsonwebtoken';
+import { Context } from 'graphql-ws';
+import { Extra } from 'graphql-ws/lib/use/ws';
+import { PrismaClient } from '@prisma/client';
+import { AuthUser, sessionService } from './sessions';
+
+// How stale a socket's session check may get before the next event re-runs it; 0 checks on every event
+const SUBSCRIPTION_REAUTH_SECONDS = parseInt(process.env.SUBSCRIPTION_REAUTH_SECONDS || '30');
+
+// graphql-ws's Unauthorized close code; clients should reconnect with a fresh access token
+const CLOSE_UNAUTHORIZED = 4401;
+
+// What a socket carries between operations, set up in connect()
+type SubscriptionExtra = {
+  authorization: string;
+  user: AuthUser;
+  checkedAt: number;
+  pendingCheck: Promise<boolean>;
+  expiryTimer: NodeJS.Timeout;
+};
+
+type SubscriptionContext = Context<Record<string, unknown> | undefined, Extra & Partial<SubscriptionExtra>>;
+
+function closeUnauthorized(ctx: SubscriptionContext, reason: string): void {
+  ctx.extra.user = undefined;
+  ctx.extra.socket.close(CLOSE_UNAUTHORIZED, reason);
+}
+
+// Authenticates the connection with the same access token as HTTP requests and closes it when that token expires
+async function connect(prisma: PrismaClient, ctx: SubscriptionContext): Promise<boolean> {
+  const authorization = ctx.connectionParams?.authorization;
+  if (typeof authorization !== 'string') return false;
+  const user = await sessionService.authenticate(prisma, authorization);
+  if (!user) return false;
+  Object.assign(ctx.extra, { authorization, user, checkedAt: Date.now() });
+
+  const { exp } = jwt.decode(authorization.slice('Bearer '.length)) as { exp?: number };
+  if (exp) {
+    ctx.extra.expiryTimer = setTimeout(() => closeUnauthorized(ctx, 'Token expired'), exp * 1000 - Date.now());
+    ctx.extra.expiryTimer.unref();
+  }
+  return true;
+}
+
+function disconnect(ctx: SubscriptionContext): void {
+  clearTimeout(ctx.extra.expiryTimer);
+}
+
+// Re-runs the session check so revoked sessions and deactivated or archived employees stop receiving
+// events, and role or department changes narrow what they receive. Closes the socket when it fails.
+function reauthenticate(prisma: PrismaClient, ctx: SubscriptionContext, force: boolean = false): Promise<boolean> {
+  if (!ctx.extra.user) return Promise.resolve(false);
+  if (!force && Date.now() - (ctx.extra.checkedAt ?? 0) < SUBSCRIPTION_REAUTH_SECONDS * 1000) return Promise.resolve(true);
+  // Events for several subscriptions on one socket share a single lookup
+  if (!ctx.extra.pendingCheck) {
+    ctx.extra.pendingCheck = sessionService
+      .authenticate(prisma, ctx.extra.authorization)
+      .then((user) => {
+        if (!user) {
+          closeUnauthorized(ctx, 'Session is no longer valid');
+          return false;
+        }
+        Object.assign(ctx.extra, { user, checkedAt: Date.now() });
+        return true;
+      })
+      .finally(() => {
+        ctx.extra.pendingCheck = undefined;
+      });
+  }
+  return ctx.extra.pendingCheck;
+}
+
+export {
+  SubscriptionExtra,
+  SubscriptionContext,
+  connect,
+  disconnect,
+  reauthenticate,
+};